@@ -0,0 +1,4 @@
+DROP TABLE IF EXISTS driver_locations;
+DROP TABLE IF EXISTS rides;
+DROP TABLE IF EXISTS drivers;
+DROP TABLE IF EXISTS users;
@@ -0,0 +1,11 @@
+ALTER TABLE rides
+    DROP COLUMN IF EXISTS required_vehicle_type,
+    DROP COLUMN IF EXISTS passenger_count,
+    DROP COLUMN IF EXISTS distance_km;
+
+ALTER TABLE drivers
+    DROP COLUMN IF EXISTS max_passengers,
+    DROP COLUMN IF EXISTS vehicle_type,
+    DROP COLUMN IF EXISTS max_pickup_radius_km,
+    DROP COLUMN IF EXISTS min_price_per_ride,
+    DROP COLUMN IF EXISTS price_per_km;
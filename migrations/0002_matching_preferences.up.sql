@@ -0,0 +1,14 @@
+-- Matching preferences were added to the CREATE TABLE statements after the
+-- tables already existed, so older databases never received them
+
+ALTER TABLE drivers
+    ADD COLUMN IF NOT EXISTS price_per_km DOUBLE PRECISION DEFAULT 1.5,
+    ADD COLUMN IF NOT EXISTS min_price_per_ride DOUBLE PRECISION DEFAULT 5.0,
+    ADD COLUMN IF NOT EXISTS max_pickup_radius_km DOUBLE PRECISION DEFAULT 10.0,
+    ADD COLUMN IF NOT EXISTS vehicle_type INTEGER DEFAULT 1,
+    ADD COLUMN IF NOT EXISTS max_passengers INTEGER DEFAULT 4;
+
+ALTER TABLE rides
+    ADD COLUMN IF NOT EXISTS distance_km DOUBLE PRECISION,
+    ADD COLUMN IF NOT EXISTS passenger_count INTEGER DEFAULT 1,
+    ADD COLUMN IF NOT EXISTS required_vehicle_type INTEGER DEFAULT 1;
@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS ride_events (
+    id TEXT PRIMARY KEY,
+    ride_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    actor_type TEXT NOT NULL,
+    actor_id TEXT,
+    previous_status TEXT,
+    next_status TEXT,
+    driver_id TEXT,
+    driver_lat DOUBLE PRECISION,
+    driver_lng DOUBLE PRECISION,
+    metadata JSONB,
+    created_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ride_events_ride_id ON ride_events(ride_id, created_at);
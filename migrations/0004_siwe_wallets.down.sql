@@ -0,0 +1,12 @@
+DROP INDEX IF EXISTS idx_drivers_wallet;
+DROP INDEX IF EXISTS idx_users_wallet;
+
+UPDATE drivers SET wallet_address = legacy_wallet_address WHERE legacy_wallet_address IS NOT NULL AND wallet_address IS NULL;
+UPDATE users SET wallet_address = legacy_wallet_address WHERE legacy_wallet_address IS NOT NULL AND wallet_address IS NULL;
+ALTER TABLE drivers DROP COLUMN IF EXISTS legacy_wallet_address;
+ALTER TABLE users DROP COLUMN IF EXISTS legacy_wallet_address;
+
+ALTER TABLE drivers DROP COLUMN IF EXISTS wallet_verified_at;
+ALTER TABLE users DROP COLUMN IF EXISTS wallet_verified_at;
+
+DROP TABLE IF EXISTS siwe_nonces;
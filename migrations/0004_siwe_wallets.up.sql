@@ -0,0 +1,24 @@
+CREATE TABLE IF NOT EXISTS siwe_nonces (
+    nonce TEXT PRIMARY KEY,
+    expires_at TIMESTAMPTZ NOT NULL,
+    used_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL
+);
+
+-- Set once wallet ownership is proven with a signed SIWE message
+ALTER TABLE users ADD COLUMN IF NOT EXISTS wallet_verified_at TIMESTAMPTZ;
+ALTER TABLE drivers ADD COLUMN IF NOT EXISTS wallet_verified_at TIMESTAMPTZ;
+
+-- Addresses stored before SIWE were never proven, they move to legacy_wallet_address
+-- ('' used to stand for "no wallet") so they can't block the wallet's real owner
+ALTER TABLE users ADD COLUMN IF NOT EXISTS legacy_wallet_address TEXT;
+ALTER TABLE drivers ADD COLUMN IF NOT EXISTS legacy_wallet_address TEXT;
+
+UPDATE users SET legacy_wallet_address = NULLIF(wallet_address, ''), wallet_address = NULL
+WHERE wallet_address IS NOT NULL AND wallet_verified_at IS NULL;
+UPDATE drivers SET legacy_wallet_address = NULLIF(wallet_address, ''), wallet_address = NULL
+WHERE wallet_address IS NOT NULL AND wallet_verified_at IS NULL;
+
+-- A verified wallet signs in to one account per table, so an address can only be bound once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_wallet ON users(lower(wallet_address)) WHERE wallet_verified_at IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_drivers_wallet ON drivers(lower(wallet_address)) WHERE wallet_verified_at IS NOT NULL;
@@ -0,0 +1,11 @@
+DROP INDEX IF EXISTS idx_ride_events_driver_id;
+DROP INDEX IF EXISTS idx_drivers_current_ride_id;
+DROP INDEX IF EXISTS idx_users_driver_id;
+
+ALTER TABLE ride_events DROP CONSTRAINT IF EXISTS ride_events_driver_id_fkey;
+ALTER TABLE ride_events DROP CONSTRAINT IF EXISTS ride_events_ride_id_fkey;
+ALTER TABLE driver_locations DROP CONSTRAINT IF EXISTS driver_locations_driver_id_fkey;
+ALTER TABLE drivers DROP CONSTRAINT IF EXISTS drivers_current_ride_id_fkey;
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_driver_id_fkey;
+ALTER TABLE rides DROP CONSTRAINT IF EXISTS rides_assigned_driver_id_fkey;
+ALTER TABLE rides DROP CONSTRAINT IF EXISTS rides_user_id_fkey;
@@ -0,0 +1,37 @@
+-- Referential integrity between users, drivers and rides
+-- Fails if orphaned rows exist: run `bun run db:audit` (and `bun run db:audit --repair`) first
+
+-- A ride belongs to its rider: deleting the account deletes its ride history
+ALTER TABLE rides
+    ADD CONSTRAINT rides_user_id_fkey
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE;
+
+-- Rides outlive the driver who served them
+ALTER TABLE rides
+    ADD CONSTRAINT rides_assigned_driver_id_fkey
+    FOREIGN KEY (assigned_driver_id) REFERENCES drivers(id) ON DELETE SET NULL;
+
+ALTER TABLE users
+    ADD CONSTRAINT users_driver_id_fkey
+    FOREIGN KEY (driver_id) REFERENCES drivers(id) ON DELETE SET NULL;
+
+ALTER TABLE drivers
+    ADD CONSTRAINT drivers_current_ride_id_fkey
+    FOREIGN KEY (current_ride_id) REFERENCES rides(id) ON DELETE SET NULL;
+
+ALTER TABLE driver_locations
+    ADD CONSTRAINT driver_locations_driver_id_fkey
+    FOREIGN KEY (driver_id) REFERENCES drivers(id) ON DELETE CASCADE;
+
+ALTER TABLE ride_events
+    ADD CONSTRAINT ride_events_ride_id_fkey
+    FOREIGN KEY (ride_id) REFERENCES rides(id) ON DELETE CASCADE;
+
+ALTER TABLE ride_events
+    ADD CONSTRAINT ride_events_driver_id_fkey
+    FOREIGN KEY (driver_id) REFERENCES drivers(id) ON DELETE SET NULL;
+
+-- Foreign key columns used for cascades and lookups
+CREATE INDEX IF NOT EXISTS idx_users_driver_id ON users(driver_id);
+CREATE INDEX IF NOT EXISTS idx_drivers_current_ride_id ON drivers(current_ride_id);
+CREATE INDEX IF NOT EXISTS idx_ride_events_driver_id ON ride_events(driver_id);
@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS idx_rides_quote_id;
+
+ALTER TABLE rides DROP COLUMN IF EXISTS quote_id;
+ALTER TABLE rides DROP COLUMN IF EXISTS fare;
@@ -0,0 +1,7 @@
+-- Server-computed fare from a quote (see src/fares.ts); estimated_price/custom_price
+-- remain for rides created before quotes existed
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS fare NUMERIC(10, 2);
+
+-- Id of the quote the ride was created from, each quote can only be used once
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS quote_id TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rides_quote_id ON rides(quote_id);
@@ -0,0 +1,28 @@
+-- Back to decimal prices; amounts in currencies without two decimals are converted as if they had them
+
+ALTER TABLE drivers ADD COLUMN IF NOT EXISTS price_per_km DOUBLE PRECISION DEFAULT 1.5;
+ALTER TABLE drivers ADD COLUMN IF NOT EXISTS min_price_per_ride DOUBLE PRECISION DEFAULT 5.0;
+
+UPDATE drivers
+SET
+    price_per_km = price_per_km_amount / 100.0,
+    min_price_per_ride = min_price_per_ride_amount / 100.0;
+
+ALTER TABLE drivers DROP CONSTRAINT IF EXISTS drivers_price_currency_check;
+ALTER TABLE drivers DROP COLUMN IF EXISTS price_currency;
+ALTER TABLE drivers DROP COLUMN IF EXISTS min_price_per_ride_amount;
+ALTER TABLE drivers DROP COLUMN IF EXISTS price_per_km_amount;
+
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS fare NUMERIC(10, 2);
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS estimated_price TEXT;
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS custom_price TEXT;
+
+UPDATE rides
+SET
+    fare = CASE WHEN quote_id IS NOT NULL THEN fare_amount / 100.0 END,
+    estimated_price = (fare_amount / 100.0)::NUMERIC(10, 2)::TEXT
+WHERE fare_amount IS NOT NULL;
+
+ALTER TABLE rides DROP CONSTRAINT IF EXISTS rides_fare_currency_check;
+ALTER TABLE rides DROP COLUMN IF EXISTS fare_currency;
+ALTER TABLE rides DROP COLUMN IF EXISTS fare_amount;
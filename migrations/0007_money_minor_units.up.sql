@@ -0,0 +1,57 @@
+-- Money as integer minor units plus an ISO 4217 currency code (see src/money.ts)
+-- Existing amounts are assumed to be in a two-decimal currency
+
+-- Rides: one fare replaces the quoted NUMERIC fare and the client supplied price strings
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS fare_amount BIGINT;
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS fare_currency TEXT;
+
+UPDATE rides
+SET fare_amount = ROUND(fare * 100), fare_currency = 'USD'
+WHERE fare IS NOT NULL;
+
+-- Rides created before quotes only have strings like "$12.50"; the custom price took
+-- priority in matching, the currency is guessed from the symbol
+WITH legacy AS (
+    SELECT
+        id,
+        COALESCE(NULLIF(custom_price, ''), estimated_price) AS price_text,
+        substring(
+            regexp_replace(COALESCE(NULLIF(custom_price, ''), estimated_price), '[^0-9.]', '', 'g')
+            FROM '^[0-9]*\.?[0-9]+'
+        ) AS price_number
+    FROM rides
+    WHERE fare_amount IS NULL
+)
+UPDATE rides r
+SET
+    fare_amount = ROUND(legacy.price_number::numeric * 100),
+    fare_currency = CASE
+        WHEN legacy.price_text LIKE '%€%' THEN 'EUR'
+        WHEN legacy.price_text LIKE '%£%' THEN 'GBP'
+        ELSE 'USD'
+    END
+FROM legacy
+WHERE r.id = legacy.id AND legacy.price_number IS NOT NULL;
+
+ALTER TABLE rides ADD CONSTRAINT rides_fare_currency_check
+    CHECK ((fare_amount IS NULL) = (fare_currency IS NULL) AND fare_currency ~ '^[A-Z]{3}$' AND fare_amount >= 0);
+
+ALTER TABLE rides DROP COLUMN IF EXISTS fare;
+ALTER TABLE rides DROP COLUMN IF EXISTS estimated_price;
+ALTER TABLE rides DROP COLUMN IF EXISTS custom_price;
+
+-- Drivers: both matching prices share one currency
+ALTER TABLE drivers ADD COLUMN IF NOT EXISTS price_per_km_amount INTEGER NOT NULL DEFAULT 150;
+ALTER TABLE drivers ADD COLUMN IF NOT EXISTS min_price_per_ride_amount INTEGER NOT NULL DEFAULT 500;
+ALTER TABLE drivers ADD COLUMN IF NOT EXISTS price_currency TEXT NOT NULL DEFAULT 'USD';
+
+UPDATE drivers
+SET
+    price_per_km_amount = ROUND(COALESCE(price_per_km, 1.5) * 100),
+    min_price_per_ride_amount = ROUND(COALESCE(min_price_per_ride, 5.0) * 100);
+
+ALTER TABLE drivers ADD CONSTRAINT drivers_price_currency_check
+    CHECK (price_currency ~ '^[A-Z]{3}$' AND price_per_km_amount >= 0 AND min_price_per_ride_amount >= 0);
+
+ALTER TABLE drivers DROP COLUMN IF EXISTS price_per_km;
+ALTER TABLE drivers DROP COLUMN IF EXISTS min_price_per_ride;
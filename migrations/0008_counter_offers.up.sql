@@ -0,0 +1,22 @@
+-- Counter-offers: a driver proposes their own price for a pending ride, the rider accepts one
+CREATE TABLE IF NOT EXISTS counter_offers (
+    id TEXT PRIMARY KEY,
+    ride_id TEXT NOT NULL REFERENCES rides(id) ON DELETE CASCADE,
+    driver_id TEXT NOT NULL REFERENCES drivers(id) ON DELETE CASCADE,
+    price_amount BIGINT NOT NULL,
+    price_currency TEXT NOT NULL,
+    message TEXT,
+    status TEXT NOT NULL DEFAULT 'pending',
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL,
+    CONSTRAINT counter_offers_price_check CHECK (price_amount > 0 AND price_currency ~ '^[A-Z]{3}$'),
+    CONSTRAINT counter_offers_status_check CHECK (status IN ('pending', 'accepted', 'withdrawn', 'expired'))
+);
+
+-- A driver has at most one open offer per ride, sending another replaces it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_counter_offers_pending
+    ON counter_offers(ride_id, driver_id) WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_counter_offers_ride_id ON counter_offers(ride_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_counter_offers_driver_id ON counter_offers(driver_id);
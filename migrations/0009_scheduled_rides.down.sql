@@ -0,0 +1,7 @@
+DROP INDEX IF EXISTS idx_rides_scheduled_time;
+
+ALTER TABLE rides DROP COLUMN IF EXISTS cancellation_reason;
+ALTER TABLE rides DROP COLUMN IF EXISTS reminder_sent_at;
+ALTER TABLE rides DROP COLUMN IF EXISTS dispatched_at;
+ALTER TABLE rides DROP COLUMN IF EXISTS notes;
+ALTER TABLE rides DROP COLUMN IF EXISTS scheduled_time;
@@ -0,0 +1,13 @@
+-- Scheduled rides (see src/rideScheduler.ts): a pickup time in the future, held back from
+-- matching until dispatched_at is set a lead time before pickup
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS scheduled_time TIMESTAMPTZ;
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS notes TEXT;
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS dispatched_at TIMESTAMPTZ;
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS reminder_sent_at TIMESTAMPTZ;
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS cancellation_reason TEXT;
+
+-- Rides requested for now are dispatched when created
+UPDATE rides SET dispatched_at = created_at WHERE dispatched_at IS NULL AND scheduled_time IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rides_scheduled_time ON rides(scheduled_time)
+    WHERE scheduled_time IS NOT NULL AND status IN ('pending', 'accepted', 'driver_assigned');
@@ -0,0 +1,4 @@
+DROP TABLE IF EXISTS dispatch_attempts;
+
+ALTER TABLE rides DROP CONSTRAINT IF EXISTS rides_dispatch_mode_check;
+ALTER TABLE rides DROP COLUMN IF EXISTS dispatch_mode;
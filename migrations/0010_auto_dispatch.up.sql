@@ -0,0 +1,27 @@
+-- Automatic dispatch (see src/dispatch.ts): 'auto' rides are offered to one driver at a time
+-- instead of being broadcast to every matching driver
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS dispatch_mode TEXT NOT NULL DEFAULT 'broadcast';
+ALTER TABLE rides DROP CONSTRAINT IF EXISTS rides_dispatch_mode_check;
+ALTER TABLE rides ADD CONSTRAINT rides_dispatch_mode_check CHECK (dispatch_mode IN ('broadcast', 'auto'));
+
+-- Each offer of an auto-dispatched ride to a driver, in the order they were made
+CREATE TABLE IF NOT EXISTS dispatch_attempts (
+    id TEXT PRIMARY KEY,
+    ride_id TEXT NOT NULL REFERENCES rides(id) ON DELETE CASCADE,
+    driver_id TEXT NOT NULL REFERENCES drivers(id) ON DELETE CASCADE,
+    rank INTEGER NOT NULL,
+    distance_to_pickup_km DOUBLE PRECISION NOT NULL,
+    match_score DOUBLE PRECISION NOT NULL,
+    status TEXT NOT NULL DEFAULT 'offered',
+    offered_at TIMESTAMPTZ NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    responded_at TIMESTAMPTZ,
+    CONSTRAINT dispatch_attempts_status_check CHECK (status IN ('offered', 'accepted', 'declined', 'timed_out', 'cancelled'))
+);
+
+-- A ride is offered to one driver at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dispatch_attempts_offered
+    ON dispatch_attempts(ride_id) WHERE status = 'offered';
+
+CREATE INDEX IF NOT EXISTS idx_dispatch_attempts_ride_id ON dispatch_attempts(ride_id, rank);
+CREATE INDEX IF NOT EXISTS idx_dispatch_attempts_driver_id ON dispatch_attempts(driver_id, status);
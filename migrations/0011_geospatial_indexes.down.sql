@@ -0,0 +1,9 @@
+-- Dropping the columns drops their GiST indexes; the postgis extension stays installed
+ALTER TABLE rides DROP COLUMN IF EXISTS destination_location;
+ALTER TABLE rides DROP COLUMN IF EXISTS origin_location;
+ALTER TABLE drivers DROP COLUMN IF EXISTS location;
+
+DROP FUNCTION IF EXISTS enable_geography_columns();
+
+DROP INDEX IF EXISTS idx_rides_pending_origin;
+DROP INDEX IF EXISTS idx_drivers_position;
@@ -0,0 +1,39 @@
+-- Geospatial lookups for nearby drivers and pending rides (see src/geoQueries.ts)
+--
+-- Where PostGIS is available, drivers and rides get geography(Point) columns generated from their
+-- latitude/longitude, with GiST indexes for ST_DWithin and KNN (<->) queries. Without it the
+-- latitude/longitude indexes below serve the pure-SQL bounding-box fallback
+-- A database that gains PostGIS later can run SELECT enable_geography_columns(); and restart the API
+
+CREATE INDEX IF NOT EXISTS idx_drivers_position ON drivers(latitude, longitude)
+    WHERE latitude IS NOT NULL AND longitude IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_rides_pending_origin ON rides(origin_lat, origin_lng)
+    WHERE status = 'pending';
+
+CREATE OR REPLACE FUNCTION enable_geography_columns() RETURNS BOOLEAN AS $$
+BEGIN
+    BEGIN
+        CREATE EXTENSION IF NOT EXISTS postgis;
+    EXCEPTION WHEN OTHERS THEN
+        RAISE NOTICE 'PostGIS is not available (%), nearby lookups use the SQL fallback', SQLERRM;
+        RETURN FALSE;
+    END;
+
+    -- Dynamic SQL: the geography type doesn't exist when PostGIS is missing
+    EXECUTE 'ALTER TABLE drivers ADD COLUMN IF NOT EXISTS location geography(Point, 4326)
+        GENERATED ALWAYS AS (ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography) STORED';
+    EXECUTE 'ALTER TABLE rides ADD COLUMN IF NOT EXISTS origin_location geography(Point, 4326)
+        GENERATED ALWAYS AS (ST_SetSRID(ST_MakePoint(origin_lng, origin_lat), 4326)::geography) STORED';
+    EXECUTE 'ALTER TABLE rides ADD COLUMN IF NOT EXISTS destination_location geography(Point, 4326)
+        GENERATED ALWAYS AS (ST_SetSRID(ST_MakePoint(destination_lng, destination_lat), 4326)::geography) STORED';
+
+    EXECUTE 'CREATE INDEX IF NOT EXISTS idx_drivers_location ON drivers USING GIST (location)';
+    EXECUTE 'CREATE INDEX IF NOT EXISTS idx_rides_pending_origin_location ON rides USING GIST (origin_location)
+        WHERE status = ''pending''';
+    EXECUTE 'CREATE INDEX IF NOT EXISTS idx_rides_destination_location ON rides USING GIST (destination_location)';
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT enable_geography_columns();
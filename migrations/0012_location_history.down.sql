@@ -0,0 +1,3 @@
+-- Drops every monthly partition with it
+DROP TABLE IF EXISTS driver_location_history;
+DROP FUNCTION IF EXISTS create_location_history_partition(DATE);
@@ -0,0 +1,42 @@
+-- Every location a driver reports, append-only and partitioned by month (see src/locationHistory.ts)
+-- ride_id is the driver's current ride when the point was recorded, the ride's breadcrumb trail
+CREATE TABLE IF NOT EXISTS driver_location_history (
+    id BIGSERIAL,
+    driver_id TEXT NOT NULL REFERENCES drivers(id) ON DELETE CASCADE,
+    ride_id TEXT REFERENCES rides(id) ON DELETE SET NULL,
+    latitude DOUBLE PRECISION NOT NULL,
+    longitude DOUBLE PRECISION NOT NULL,
+    heading DOUBLE PRECISION,
+    speed DOUBLE PRECISION,
+    accuracy DOUBLE PRECISION,
+    recorded_at TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (id, recorded_at)
+) PARTITION BY RANGE (recorded_at);
+
+CREATE INDEX IF NOT EXISTS idx_driver_location_history_ride
+    ON driver_location_history(ride_id, recorded_at) WHERE ride_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_driver_location_history_driver
+    ON driver_location_history(driver_id, recorded_at);
+
+-- Creates the partition holding a calendar month (UTC), e.g. driver_location_history_2026_10
+-- The retention job keeps the next months created ahead of time
+CREATE OR REPLACE FUNCTION create_location_history_partition(month DATE) RETURNS TEXT AS $$
+DECLARE
+    first_day DATE := date_trunc('month', month)::date;
+    partition_name TEXT := 'driver_location_history_' || to_char(first_day, 'YYYY_MM');
+BEGIN
+    EXECUTE format(
+        'CREATE TABLE IF NOT EXISTS %I PARTITION OF driver_location_history FOR VALUES FROM (%L) TO (%L)',
+        partition_name,
+        first_day::timestamp AT TIME ZONE 'UTC',
+        (first_day + INTERVAL '1 month')::timestamp AT TIME ZONE 'UTC'
+    );
+    RETURN partition_name;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT create_location_history_partition((now() AT TIME ZONE 'UTC')::date);
+SELECT create_location_history_partition(((now() AT TIME ZONE 'UTC') + INTERVAL '1 month')::date);
+
+-- Catches points outside every monthly partition (a device clock far off) instead of rejecting them
+CREATE TABLE IF NOT EXISTS driver_location_history_default PARTITION OF driver_location_history DEFAULT;
@@ -0,0 +1,5 @@
+DROP TABLE IF EXISTS location_anomalies;
+
+ALTER TABLE drivers DROP COLUMN IF EXISTS location_anomaly_at;
+ALTER TABLE drivers DROP COLUMN IF EXISTS location_anomaly_score;
+ALTER TABLE driver_locations DROP COLUMN IF EXISTS reported_at;
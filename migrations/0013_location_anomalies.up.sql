@@ -0,0 +1,25 @@
+-- GPS plausibility checks (see src/locationAnomalies.ts)
+
+-- When the device took the latest fix, if it said so; stored separately from the server's timestamp
+ALTER TABLE driver_locations ADD COLUMN IF NOT EXISTS reported_at TIMESTAMPTZ;
+
+-- Decaying sum of anomaly weights, as of location_anomaly_at
+ALTER TABLE drivers ADD COLUMN IF NOT EXISTS location_anomaly_score DOUBLE PRECISION NOT NULL DEFAULT 0;
+ALTER TABLE drivers ADD COLUMN IF NOT EXISTS location_anomaly_at TIMESTAMPTZ;
+
+-- Quarantined location updates: never applied to the driver's position
+CREATE TABLE IF NOT EXISTS location_anomalies (
+    id TEXT PRIMARY KEY,
+    driver_id TEXT NOT NULL REFERENCES drivers(id) ON DELETE CASCADE,
+    kinds TEXT[] NOT NULL,
+    latitude DOUBLE PRECISION NOT NULL,
+    longitude DOUBLE PRECISION NOT NULL,
+    accuracy DOUBLE PRECISION,
+    reported_at TIMESTAMPTZ,
+    distance_km DOUBLE PRECISION,
+    implied_speed_kmh DOUBLE PRECISION,
+    score_added DOUBLE PRECISION NOT NULL,
+    detected_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_location_anomalies_driver_id ON location_anomalies(driver_id, detected_at DESC);
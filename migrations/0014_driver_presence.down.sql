@@ -0,0 +1,6 @@
+DROP INDEX IF EXISTS idx_rides_driver_unresponsive;
+ALTER TABLE rides DROP COLUMN IF EXISTS driver_unresponsive_since;
+
+DROP INDEX IF EXISTS idx_drivers_heartbeat;
+ALTER TABLE drivers DROP COLUMN IF EXISTS presence_timed_out_at;
+ALTER TABLE drivers DROP COLUMN IF EXISTS last_heartbeat_at;
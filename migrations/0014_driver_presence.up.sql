@@ -0,0 +1,16 @@
+-- Driver presence (see src/driverPresence.ts): drivers whose app stops sending heartbeats are
+-- taken offline by a sweeper, and rides they were on are flagged for ops
+ALTER TABLE drivers ADD COLUMN IF NOT EXISTS last_heartbeat_at TIMESTAMPTZ;
+-- When the sweeper took the driver offline, until they pick an availability again
+ALTER TABLE drivers ADD COLUMN IF NOT EXISTS presence_timed_out_at TIMESTAMPTZ;
+
+UPDATE drivers SET last_heartbeat_at = COALESCE(last_location_update, updated_at)
+WHERE last_heartbeat_at IS NULL AND availability <> 'offline';
+
+CREATE INDEX IF NOT EXISTS idx_drivers_heartbeat ON drivers(last_heartbeat_at) WHERE availability <> 'offline';
+
+-- Set while the assigned driver of an unfinished ride has stopped sending heartbeats
+ALTER TABLE rides ADD COLUMN IF NOT EXISTS driver_unresponsive_since TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_rides_driver_unresponsive ON rides(driver_unresponsive_since)
+    WHERE driver_unresponsive_since IS NOT NULL;
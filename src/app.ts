@@ -0,0 +1,64 @@
+import { Elysia } from 'elysia';
+import { cors } from '@elysiajs/cors';
+import sql from './db';
+import { userRoutes } from './users';
+import { rideRoutes } from './rides';
+import { driverRoutes } from "./drivers.ts";
+import { authPlugin, authRoutes } from './auth';
+import { siweRoutes } from './siwe';
+import { pricingRoutes } from './pricing';
+import { errorHandler } from './errors';
+import { docs } from './openapi';
+import { wsRoutes } from './ws';
+
+function echoHeaders(headers: Record<string, string | undefined>) {
+    const { authorization, ...rest } = headers;
+    return rest;
+}
+
+// Main Elysia app (index.ts connects the database and starts listening)
+export const app = new Elysia()
+    .use(cors({
+        origin: true, // Allow all origins
+        methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+        allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-Id'],
+        exposeHeaders: ['X-Request-Id'],
+        credentials: true,
+    }))
+    .decorate('db', sql) // ✅ This makes db available in all route handlers!
+    .use(errorHandler) // Translates thrown ApiErrors into { error: { code, message, details, requestId } }
+    .use(docs) // Swagger UI at /docs, OpenAPI spec at /docs/json
+    .use(authPlugin)
+
+    // 👇 Include route modules (order matters - decorate before routes)
+    .use(authRoutes)
+    .use(siweRoutes)
+    .use(userRoutes)
+    .use(rideRoutes)
+    .use(driverRoutes)
+    .use(pricingRoutes)
+
+    // Health check endpoint
+    .get('/health', () => ({ status: 'ok', timestamp: new Date().toISOString() }), { detail: { tags: ['System'] } })
+
+    // Test database endpoint (admin only)
+    .get('/test-db', async ({ db }) => {
+        const result = await db`SELECT NOW() as time`;
+        return { success: true, time: result[0]!.time, message: 'Database is working!' };
+    }, { roles: ['admin'] })
+
+    // Debug endpoints to test CORS and connectivity (admin only, the token isn't echoed back)
+    .get('/api/debug', ({ headers }) => ({
+        message: 'API is working!',
+        timestamp: new Date().toISOString(),
+        headers: echoHeaders(headers),
+    }), { roles: ['admin'] })
+
+    .post('/api/debug', ({ body, headers }) => ({
+        message: 'POST request received',
+        body,
+        headers: echoHeaders(headers),
+    }), { roles: ['admin'] })
+
+    // Authenticated WebSocket with per-ride and per-driver channels (see ws.ts)
+    .use(wsRoutes);
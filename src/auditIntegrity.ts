@@ -0,0 +1,56 @@
+import sql from './db';
+import { auditReferences, describeCheck, repairReferences } from './integrity';
+
+// One-off referential integrity audit, run before applying migration 0005_foreign_keys:
+//   bun run db:audit            report rows pointing at missing users, drivers or rides
+//   bun run db:audit --repair   delete or null them out (following each key's ON DELETE rule)
+// Exits with 1 while orphans remain
+const repair = Bun.argv.slice(2).includes('--repair');
+
+try {
+    const reports = await auditReferences(sql);
+
+    for (const { check, count, sample } of reports) {
+        if (count === 0) {
+            console.log(`✅ ${describeCheck(check)}`);
+            continue;
+        }
+
+        console.log(`❗ ${describeCheck(check)}: ${count} orphaned row(s)`);
+        for (const row of sample) {
+            console.log(`     ${check.table}.${check.key}=${row.key} -> missing ${check.references}.id=${row.ref}`);
+        }
+    }
+
+    const orphans = reports.reduce((total, report) => total + report.count, 0);
+
+    if (orphans === 0) {
+        console.log('✅ No orphaned rows');
+        process.exit(0);
+    }
+
+    if (!repair) {
+        console.log(`❗ ${orphans} orphaned row(s) found, run with --repair to fix them`);
+        process.exit(1);
+    }
+
+    const repaired = await repairReferences(sql);
+    for (const { check, repaired: count } of repaired) {
+        if (count > 0) {
+            console.log(`🔧 ${describeCheck(check)}: ${check.onDelete === 'cascade' ? 'deleted' : 'cleared'} ${count} row(s)`);
+        }
+    }
+
+    const remaining = (await auditReferences(sql)).reduce((total, report) => total + report.count, 0);
+    if (remaining > 0) {
+        console.log(`❗ ${remaining} orphaned row(s) remain`);
+        process.exit(1);
+    }
+
+    console.log('✅ Repaired, no orphaned rows left');
+} catch (error: any) {
+    console.error(`❌ ${error?.message || error}`);
+    process.exit(1);
+}
+
+process.exit(0);
@@ -0,0 +1,170 @@
+import { Elysia, t } from 'elysia';
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import sql, { type DbClient } from './db';
+import type { AuthRole, Caller, SessionClaims } from './types';
+import { mapRowToUser, mapRowToFullDriver } from './types';
+import { forbidden, unauthorized } from './errors';
+import { literalUnion, NonEmptyString } from './schemas';
+import { CallerModel, responds } from './openapi';
+
+const AUTH_ROLES: AuthRole[] = ['rider', 'driver', 'admin'];
+
+// Session tokens are HS256 JWTs, so any instance sharing the secret can verify them offline
+const AUTH_SECRET = Bun.env.AUTH_SECRET || (() => {
+    console.warn('⚠️ AUTH_SECRET is not set, using a random secret (sessions will not survive restarts)');
+    return randomBytes(32).toString('hex');
+})();
+
+const SESSION_TTL_SECONDS = parseInt(Bun.env.SESSION_TTL_SECONDS || '604800'); // 7 days
+
+function sign(data: string): string {
+    return createHmac('sha256', AUTH_SECRET).update(data).digest('base64url');
+}
+
+function decodeSegment(segment: string): any {
+    try {
+        return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    } catch {
+        return null;
+    }
+}
+
+// HS256 JWTs signed with AUTH_SECRET, also used for fare quotes (see fares.ts)
+export function signToken(claims: object): string {
+    const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+
+    return `${header}.${payload}.${sign(`${header}.${payload}`)}`;
+}
+
+// Returns the claims, or null if the token is malformed, tampered with or expired
+export function verifyToken(token: string): Record<string, any> | null {
+    const [header, payload, signature, ...rest] = token.split('.');
+    if (!header || !payload || !signature || rest.length > 0) return null;
+
+    const expected = Buffer.from(sign(`${header}.${payload}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    if (decodeSegment(header)?.alg !== 'HS256') return null;
+
+    const claims = decodeSegment(payload);
+    if (!claims || typeof claims !== 'object') return null;
+    if (typeof claims.exp !== 'number' || claims.exp <= Math.floor(Date.now() / 1000)) return null;
+
+    return claims;
+}
+
+export function signSessionToken(subject: string, role: AuthRole, ttlSeconds: number = SESSION_TTL_SECONDS): string {
+    const now = Math.floor(Date.now() / 1000);
+    const claims: SessionClaims = { sub: subject, role, iat: now, exp: now + ttlSeconds };
+    return signToken(claims);
+}
+
+// Returns the token claims, or null if the token is malformed, tampered with or expired
+export function verifySessionToken(token: string): SessionClaims | null {
+    const claims = verifyToken(token);
+    if (!claims || typeof claims.sub !== 'string' || !AUTH_ROLES.includes(claims.role)) return null;
+
+    return claims as SessionClaims;
+}
+
+// Resolve the bearer token to the rider, driver or admin it was issued for
+export async function resolveCaller(authorization?: string): Promise<Caller | null> {
+    if (!authorization?.startsWith('Bearer ')) return null;
+
+    const claims = verifySessionToken(authorization.slice('Bearer '.length).trim());
+    if (!claims) return null;
+
+    switch (claims.role) {
+        case 'rider': {
+            const users = await sql`SELECT * FROM users WHERE id = ${claims.sub}`;
+            return users.length > 0 ? { role: 'rider', id: claims.sub, user: mapRowToUser(users[0]!) } : null;
+        }
+        case 'driver': {
+            const drivers = await sql`SELECT * FROM drivers WHERE id = ${claims.sub}`;
+            return drivers.length > 0 ? { role: 'driver', id: claims.sub, driver: mapRowToFullDriver(drivers[0]!) } : null;
+        }
+        case 'admin':
+            return { role: 'admin', id: claims.sub };
+    }
+}
+
+// Ownership checks - admins may act on any resource
+export function canActForUser(caller: Caller | null, userId: string): boolean {
+    return caller?.role === 'admin' || (caller?.role === 'rider' && caller.id === userId);
+}
+
+export function canActForDriver(caller: Caller | null, driverId: string): boolean {
+    return caller?.role === 'admin' || (caller?.role === 'driver' && caller.id === driverId);
+}
+
+// Riders see their own rides, drivers see rides assigned to them
+export function canAccessRide(caller: Caller | null, ride: any): boolean {
+    if (!caller) return false;
+    if (caller.role === 'admin') return true;
+    if (caller.role === 'rider') return ride.user_id === caller.id;
+    return !!ride.assigned_driver_id && ride.assigned_driver_id === caller.id;
+}
+
+// Drivers see their own live position, riders only that of the driver on one of their unfinished rides
+export async function canSeeDriverLocation(db: DbClient, caller: Caller | null, driverId: string): Promise<boolean> {
+    if (canActForDriver(caller, driverId)) return true;
+    if (caller?.role !== 'rider') return false;
+
+    const rides = await db`
+        SELECT user_id, assigned_driver_id FROM rides
+        WHERE assigned_driver_id = ${driverId} AND user_id = ${caller.id}
+            AND status NOT IN ('completed', 'cancelled')
+        LIMIT 1
+    `;
+    return rides.some((ride) => canAccessRide(caller, ride));
+}
+
+// Resolves `caller` for every route and adds a `roles` option to restrict who may call a route:
+//   .get('/', handler, { roles: ['admin'] })
+export const authPlugin = new Elysia({ name: 'auth' })
+    .derive({ as: 'global' }, async ({ headers }) => ({
+        caller: await resolveCaller(headers.authorization),
+    }))
+    .macro({
+        roles(roles: AuthRole[]) {
+            return {
+                beforeHandle({ caller }) {
+                    if (!caller) {
+                        throw unauthorized('Authentication required');
+                    }
+                    if (!roles.includes(caller.role)) {
+                        throw forbidden('You do not have permission to perform this action');
+                    }
+                },
+            };
+        },
+    });
+
+export const authRoutes = new Elysia({ prefix: '/api/auth', detail: { tags: ['Auth'] } })
+    .use(authPlugin)
+
+    // Get the authenticated caller
+    .get('/me', ({ caller }) => ({ caller }), {
+        roles: ['rider', 'driver', 'admin'],
+        detail: responds(t.Object({ caller: CallerModel })),
+    })
+
+    // Issue a session token on behalf of a rider or driver (admin only)
+    .post('/token', async ({ body }: { body: { subject: string; role: AuthRole; ttlSeconds?: number } }) => {
+        const { subject, role, ttlSeconds } = body;
+
+        return {
+            success: true,
+            token: signSessionToken(subject, role, ttlSeconds),
+        };
+    }, {
+        roles: ['admin'],
+        body: t.Object({
+            subject: NonEmptyString,
+            role: literalUnion(AUTH_ROLES),
+            ttlSeconds: t.Optional(t.Integer({ minimum: 1 })),
+        }),
+        detail: responds(t.Object({ success: t.Boolean(), token: t.String() })),
+    });
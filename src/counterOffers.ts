@@ -0,0 +1,188 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { DbClient } from './db';
+import type { CounterOffer, Money } from './types';
+import { channelName, publish } from './realtime';
+import { badRequest, conflict, forbidden, notFound } from './errors';
+
+// Counter-offers: a driver proposes their own price for a pending ride instead of its fare
+// The rider lists them on GET /api/rides/:id/offers and accepts one, which claims the ride
+// for that driver at the agreed price (see claimRide). Offers expire after
+// COUNTER_OFFER_TTL_SECONDS and the open ones are withdrawn once the ride is claimed or cancelled
+// Every change is published as { type: 'counterOfferUpdated', offer } to ride:<rideId> and offers:<driverId>
+
+export const COUNTER_OFFER_TTL_SECONDS = parseInt(Bun.env.COUNTER_OFFER_TTL_SECONDS || '600'); // 10 minutes
+
+export interface CounterOfferInput {
+    rideId: string;
+    driverId: string;
+    price: Money;
+    message?: string;
+}
+
+export function mapRowToCounterOffer(row: any): CounterOffer {
+    return {
+        id: row.id,
+        rideId: row.ride_id,
+        driverId: row.driver_id,
+        // BIGINT arrives as a string
+        price: { amount: Number(row.price_amount), currency: row.price_currency },
+        message: row.message ?? undefined,
+        status: row.status,
+        expiresAt: row.expires_at,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    };
+}
+
+// Tell the rider and the driver about offers that changed, once the change is committed
+export function publishCounterOffers(offers: CounterOffer[]) {
+    for (const offer of offers) {
+        publish(channelName('ride', offer.rideId), { type: 'counterOfferUpdated', offer });
+        publish(channelName('offers', offer.driverId), { type: 'counterOfferUpdated', offer });
+    }
+}
+
+// Expiry is applied lazily: stale pending offers are flagged whenever the ride's offers are read or changed
+export async function expireCounterOffers(db: DbClient, rideId: string): Promise<CounterOffer[]> {
+    const now = new Date().toISOString();
+    const rows = await db`
+        UPDATE counter_offers SET status = 'expired', updated_at = ${now}
+        WHERE ride_id = ${rideId} AND status = 'pending' AND expires_at <= ${now}
+        RETURNING *
+    `;
+
+    const expired = rows.map(mapRowToCounterOffer);
+    publishCounterOffers(expired);
+    return expired;
+}
+
+export async function listCounterOffers(db: DbClient, rideId: string, driverId?: string): Promise<CounterOffer[]> {
+    await expireCounterOffers(db, rideId);
+
+    const rows = await db`
+        SELECT * FROM counter_offers
+        WHERE ride_id = ${rideId}
+            ${driverId ? db`AND driver_id = ${driverId}` : db``}
+        ORDER BY created_at DESC
+    `;
+
+    return rows.map(mapRowToCounterOffer);
+}
+
+// Create the driver's offer for a ride, or replace their open one (the expiry restarts)
+// Run it in a transaction: the ride is share-locked so the offer can't slip in after the ride was claimed
+export async function submitCounterOffer(db: DbClient, input: CounterOfferInput): Promise<CounterOffer> {
+    const { rideId, driverId, price, message } = input;
+
+    const rides = await db`
+        SELECT status, assigned_driver_id, dispatched_at, dispatch_mode, fare_currency FROM rides WHERE id = ${rideId} FOR SHARE
+    `;
+
+    if (rides.length === 0) {
+        throw notFound('Ride not found');
+    }
+
+    const ride = rides[0]!;
+
+    if (ride.status !== 'pending' || ride.assigned_driver_id) {
+        throw conflict('Offers can only be made on pending rides');
+    }
+
+    if (!ride.dispatched_at) {
+        throw conflict('Scheduled ride is not open to drivers yet');
+    }
+
+    if (ride.dispatch_mode === 'auto') {
+        throw conflict('Ride is being dispatched automatically and takes no offers');
+    }
+
+    if (ride.fare_currency && price.currency !== ride.fare_currency) {
+        throw badRequest(`Offer must be in the ride's currency (${ride.fare_currency})`);
+    }
+
+    if (price.amount <= 0) {
+        throw badRequest('Offer price must be greater than zero');
+    }
+
+    const drivers = await db`
+        SELECT status FROM drivers WHERE id = ${driverId}
+    `;
+
+    if (drivers.length === 0) {
+        throw notFound('Driver not found');
+    }
+
+    if (drivers[0]!.status !== 'approved') {
+        throw forbidden('Only approved drivers can make offers');
+    }
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + COUNTER_OFFER_TTL_SECONDS * 1000).toISOString();
+
+    const rows = await db`
+        INSERT INTO counter_offers (
+            id, ride_id, driver_id, price_amount, price_currency, message,
+            status, expires_at, created_at, updated_at
+        ) VALUES (
+            ${uuidv4()}, ${rideId}, ${driverId}, ${price.amount}, ${price.currency}, ${message ?? null},
+            'pending', ${expiresAt}, ${now.toISOString()}, ${now.toISOString()}
+        )
+        ON CONFLICT (ride_id, driver_id) WHERE status = 'pending' DO UPDATE SET
+            price_amount = EXCLUDED.price_amount,
+            price_currency = EXCLUDED.price_currency,
+            message = EXCLUDED.message,
+            expires_at = EXCLUDED.expires_at,
+            updated_at = EXCLUDED.updated_at
+        RETURNING *
+    `;
+
+    return mapRowToCounterOffer(rows[0]!);
+}
+
+// Withdraw a driver's own open offer
+export async function withdrawCounterOffer(db: DbClient, rideId: string, offerId: string, driverId: string): Promise<CounterOffer> {
+    const now = new Date().toISOString();
+    const rows = await db`
+        UPDATE counter_offers SET status = 'withdrawn', updated_at = ${now}
+        WHERE id = ${offerId} AND ride_id = ${rideId} AND driver_id = ${driverId} AND status = 'pending'
+        RETURNING *
+    `;
+
+    if (rows.length === 0) {
+        throw conflict('Offer is not open');
+    }
+
+    return mapRowToCounterOffer(rows[0]!);
+}
+
+// Mark an open, unexpired offer as accepted, run inside the claim transaction
+export async function acceptCounterOffer(db: DbClient, rideId: string, offerId: string, driverId: string): Promise<CounterOffer> {
+    const now = new Date().toISOString();
+    const rows = await db`
+        UPDATE counter_offers SET status = 'accepted', updated_at = ${now}
+        WHERE id = ${offerId}
+            AND ride_id = ${rideId}
+            AND driver_id = ${driverId}
+            AND status = 'pending'
+            AND expires_at > ${now}
+        RETURNING *
+    `;
+
+    if (rows.length === 0) {
+        throw conflict('Offer has expired or was withdrawn');
+    }
+
+    return mapRowToCounterOffer(rows[0]!);
+}
+
+// Withdraw every open offer on a ride that was claimed, cancelled or deleted
+export async function closeCounterOffers(db: DbClient, rideId: string): Promise<CounterOffer[]> {
+    const now = new Date().toISOString();
+    const rows = await db`
+        UPDATE counter_offers SET status = 'withdrawn', updated_at = ${now}
+        WHERE ride_id = ${rideId} AND status = 'pending'
+        RETURNING *
+    `;
+
+    return rows.map(mapRowToCounterOffer);
+}
@@ -0,0 +1,236 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Sql } from 'postgres';
+import type { DbClient } from './db';
+import type { DispatchAttempt, DispatchMode, DriverDispatchStats, Ride } from './types';
+import { mapRowToRide } from './types';
+import {
+    MAX_PICKUP_RADIUS_KM, rankDriversForRide, toMatchProfile, type DriverCandidate, type DriverMatchProfile,
+} from './matching';
+import { findDriversNear } from './geoQueries';
+import { offerRideToDispatchedDriver, offerRideToDrivers, withdrawRideOfferFromDriver } from './rideOffers';
+import { conflict } from './errors';
+
+// Automatic dispatch: with DISPATCH_MODE=auto, new rides are offered to one driver at a time
+// instead of every matching driver. Eligible online_free drivers are ranked with the matching
+// filters in reverse (see rankDriversForRide), the best one gets the ride as a rideOffer with a
+// `dispatch` attempt and has DISPATCH_ACCEPT_TIMEOUT_SECONDS to accept it. On a decline or
+// timeout it cascades to the next driver; after DISPATCH_MAX_ATTEMPTS or once nobody is left
+// the ride falls back to broadcast. Every attempt is kept in dispatch_attempts
+
+export const DISPATCH_MODE: DispatchMode = Bun.env.DISPATCH_MODE === 'auto' ? 'auto' : 'broadcast';
+
+const ACCEPT_TIMEOUT_SECONDS = parseInt(Bun.env.DISPATCH_ACCEPT_TIMEOUT_SECONDS || '20');
+const MAX_ATTEMPTS = parseInt(Bun.env.DISPATCH_MAX_ATTEMPTS || '5');
+
+export function mapRowToDispatchAttempt(row: any): DispatchAttempt {
+    return {
+        id: row.id,
+        rideId: row.ride_id,
+        driverId: row.driver_id,
+        rank: row.rank,
+        distanceToPickupKm: row.distance_to_pickup_km,
+        matchScore: row.match_score,
+        status: row.status,
+        offeredAt: row.offered_at,
+        expiresAt: row.expires_at,
+        respondedAt: row.responded_at ?? undefined,
+    };
+}
+
+// Free drivers the ride fits, best first, skipping drivers it was already offered to
+// and drivers waiting to answer another ride
+async function findCandidates(db: DbClient, ride: Ride, excludedDriverIds: string[]): Promise<DriverCandidate[]> {
+    // Each driver's own pickup radius is checked when matching, the query only rules out drivers
+    // further away than any radius could reach
+    const rows = await findDriversNear(db, ride.originCoordinates, MAX_PICKUP_RADIUS_KM, db`
+        AND d.status = 'approved'
+        AND d.availability = 'online_free'
+        ${excludedDriverIds.length > 0 ? db`AND d.id NOT IN ${db(excludedDriverIds)}` : db``}
+        AND NOT EXISTS (
+            SELECT 1 FROM dispatch_attempts a WHERE a.driver_id = d.id AND a.status = 'offered'
+        )
+    `);
+
+    const profiles = rows.map(toMatchProfile).filter((profile): profile is DriverMatchProfile => profile !== null);
+    return rankDriversForRide(ride, profiles);
+}
+
+// Offer an auto-dispatched ride to the next driver in line, or fall back to broadcast
+// No-op when the ride was claimed or cancelled, or is still waiting on an answer
+export async function offerToNextDriver(sql: Sql, rideId: string): Promise<DispatchAttempt | null> {
+    type Next = { attempt: DispatchAttempt; candidate: DriverCandidate } | { fallback: Ride } | null;
+
+    const next = await sql.begin(async (tx): Promise<Next> => {
+        const rides = await tx`
+            SELECT * FROM rides WHERE id = ${rideId} FOR UPDATE
+        `;
+        const row = rides[0];
+        if (!row || row.status !== 'pending' || row.assigned_driver_id || row.dispatch_mode !== 'auto' || !row.dispatched_at) {
+            return null;
+        }
+
+        const attempts = await tx`
+            SELECT driver_id, status FROM dispatch_attempts WHERE ride_id = ${rideId}
+        `;
+        if (attempts.some((attempt) => attempt.status === 'offered')) return null;
+
+        const ride = mapRowToRide(row);
+        const candidates = attempts.length < MAX_ATTEMPTS
+            ? await findCandidates(tx, ride, attempts.map((attempt) => attempt.driver_id))
+            : [];
+
+        if (candidates.length === 0) {
+            const updated = await tx`
+                UPDATE rides SET dispatch_mode = 'broadcast', updated_at = ${new Date().toISOString()}
+                WHERE id = ${rideId}
+                RETURNING *
+            `;
+            return { fallback: mapRowToRide(updated[0]!) };
+        }
+
+        const candidate = candidates[0]!;
+        const now = new Date();
+        const inserted = await tx`
+            INSERT INTO dispatch_attempts (
+                id, ride_id, driver_id, rank, distance_to_pickup_km, match_score,
+                status, offered_at, expires_at
+            ) VALUES (
+                ${uuidv4()}, ${rideId}, ${candidate.driverId}, ${attempts.length + 1},
+                ${candidate.match.distanceToPickup}, ${candidate.match.matchScore},
+                'offered', ${now.toISOString()}, ${new Date(now.getTime() + ACCEPT_TIMEOUT_SECONDS * 1000).toISOString()}
+            )
+            RETURNING *
+        `;
+
+        return { attempt: mapRowToDispatchAttempt(inserted[0]!), candidate };
+    });
+
+    if (!next) return null;
+
+    if ('fallback' in next) {
+        await offerRideToDrivers(sql, next.fallback);
+        return null;
+    }
+
+    const { attempt, candidate } = next;
+    offerRideToDispatchedDriver(attempt.driverId, candidate.match, { attemptId: attempt.id, expiresAt: attempt.expiresAt });
+
+    // The scheduler's sweep catches attempts whose timer was lost with its instance
+    setTimeout(() => {
+        expireDispatchAttempts(sql).catch((error) => {
+            console.error('Failed to expire dispatch attempts:', error);
+        });
+    }, ACCEPT_TIMEOUT_SECONDS * 1000 + 100);
+
+    return attempt;
+}
+
+// Send a newly pending ride to drivers according to its dispatch mode
+export async function dispatchRide(sql: Sql, ride: Ride): Promise<void> {
+    if (ride.dispatchMode === 'auto') {
+        await offerToNextDriver(sql, ride.id);
+    } else {
+        await offerRideToDrivers(sql, ride);
+    }
+}
+
+// Time out unanswered offers and move their rides on to the next driver
+export async function expireDispatchAttempts(sql: Sql): Promise<number> {
+    const now = new Date().toISOString();
+    const expired = await sql`
+        UPDATE dispatch_attempts SET status = 'timed_out', responded_at = ${now}
+        WHERE status = 'offered' AND expires_at <= ${now}
+        RETURNING *
+    `;
+
+    for (const row of expired) {
+        withdrawRideOfferFromDriver(row.ride_id, row.driver_id, 'expired');
+        await offerToNextDriver(sql, row.ride_id);
+    }
+
+    return expired.length;
+}
+
+export async function declineDispatchAttempt(sql: Sql, rideId: string, attemptId: string, driverId: string): Promise<DispatchAttempt> {
+    const rows = await sql`
+        UPDATE dispatch_attempts SET status = 'declined', responded_at = ${new Date().toISOString()}
+        WHERE id = ${attemptId} AND ride_id = ${rideId} AND driver_id = ${driverId} AND status = 'offered'
+        RETURNING *
+    `;
+
+    if (rows.length === 0) {
+        throw conflict('Offer has expired or was already answered');
+    }
+
+    withdrawRideOfferFromDriver(rideId, driverId, 'declined');
+    await offerToNextDriver(sql, rideId);
+
+    return mapRowToDispatchAttempt(rows[0]!);
+}
+
+// Mark the driver's open, unexpired attempt as accepted, run inside the claim transaction
+export async function acceptDispatchAttempt(db: DbClient, rideId: string, attemptId: string, driverId: string): Promise<DispatchAttempt> {
+    const now = new Date().toISOString();
+    const rows = await db`
+        UPDATE dispatch_attempts SET status = 'accepted', responded_at = ${now}
+        WHERE id = ${attemptId}
+            AND ride_id = ${rideId}
+            AND driver_id = ${driverId}
+            AND status = 'offered'
+            AND expires_at > ${now}
+        RETURNING *
+    `;
+
+    if (rows.length === 0) {
+        throw conflict('Offer has expired or was already answered');
+    }
+
+    return mapRowToDispatchAttempt(rows[0]!);
+}
+
+// Cancel the open attempt of a ride that was claimed or cancelled
+// The driver hears about it through withdrawRideOffer
+export async function closeDispatchAttempts(db: DbClient, rideId: string): Promise<void> {
+    await db`
+        UPDATE dispatch_attempts SET status = 'cancelled', responded_at = ${new Date().toISOString()}
+        WHERE ride_id = ${rideId} AND status = 'offered'
+    `;
+}
+
+export async function listDispatchAttempts(db: DbClient, rideId: string, driverId?: string): Promise<DispatchAttempt[]> {
+    const rows = await db`
+        SELECT * FROM dispatch_attempts
+        WHERE ride_id = ${rideId}
+            ${driverId ? db`AND driver_id = ${driverId}` : db``}
+        ORDER BY rank
+    `;
+
+    return rows.map(mapRowToDispatchAttempt);
+}
+
+// Cancelled attempts (the ride went away) don't count against the driver
+export async function getDriverDispatchStats(db: DbClient, driverId: string): Promise<DriverDispatchStats> {
+    const rows = await db`
+        SELECT
+            COUNT(*) AS offered,
+            COUNT(*) FILTER (WHERE status = 'accepted') AS accepted,
+            COUNT(*) FILTER (WHERE status = 'declined') AS declined,
+            COUNT(*) FILTER (WHERE status = 'timed_out') AS timed_out
+        FROM dispatch_attempts
+        WHERE driver_id = ${driverId}
+    `;
+
+    const row = rows[0]!;
+    const accepted = parseInt(row.accepted as string);
+    const declined = parseInt(row.declined as string);
+    const timedOut = parseInt(row.timed_out as string);
+    const answered = accepted + declined + timedOut;
+
+    return {
+        offered: parseInt(row.offered as string),
+        accepted,
+        declined,
+        timedOut,
+        acceptanceRate: answered > 0 ? Math.round((accepted / answered) * 1000) / 1000 : null,
+    };
+}
@@ -0,0 +1,101 @@
+import { t } from 'elysia';
+import type { Sql } from 'postgres';
+import type { DriverLocation } from './types';
+import { notFound } from './errors';
+import { Latitude, Longitude } from './schemas';
+import { channelName, publish } from './realtime';
+import { recordLocation } from './locationHistory';
+import { trackPickup } from './pickupTracking';
+import { assertPlausibleLocation } from './locationAnomalies';
+import { markDriverResponsive } from './driverPresence';
+
+// A position reported by a driver's device, over PUT /api/drivers/:id/location or /ws
+export const LocationReadingFields = {
+    latitude: Latitude,
+    longitude: Longitude,
+    heading: t.Optional(t.Number({ minimum: 0, maximum: 360 })),
+    speed: t.Optional(t.Number({ minimum: 0 })),
+    accuracy: t.Optional(t.Number({ minimum: 0 })),
+    timestamp: t.Optional(t.String({ format: 'date-time' })), // When the device took the fix
+};
+
+export interface LocationReading {
+    latitude: number;
+    longitude: number;
+    heading?: number;
+    speed?: number;
+    accuracy?: number;
+    timestamp?: string;
+}
+
+// Store a driver's latest location, append it to their history (see locationHistory.ts) and
+// publish it to driver:<driverId>, and to ride:<rideId> while the driver is on a ride,
+// where it also drives the pickup ETA and arrival (see pickupTracking.ts)
+export async function updateDriverLocation(db: Sql, driverId: string, reading: LocationReading): Promise<DriverLocation> {
+    const { latitude, longitude, heading, speed, accuracy, timestamp } = reading;
+
+    // Teleports and the like are quarantined instead of moving the driver (see locationAnomalies.ts)
+    await assertPlausibleLocation(db, driverId, reading);
+
+    const now = new Date().toISOString();
+
+    // Update the driver record first, so unknown drivers never get a driver_locations row
+    const drivers = await db`
+        UPDATE drivers
+        SET
+            latitude = ${latitude},
+            longitude = ${longitude},
+            last_location_update = ${now},
+            last_heartbeat_at = ${now},
+            updated_at = ${now}
+        WHERE id = ${driverId}
+        RETURNING current_ride_id
+    `;
+
+    if (drivers.length === 0) {
+        throw notFound('Driver not found');
+    }
+
+    // Upsert location in driver_locations table
+    await db`
+        INSERT INTO driver_locations (driver_id, latitude, longitude, heading, speed, accuracy, timestamp, reported_at)
+        VALUES (${driverId}, ${latitude}, ${longitude}, ${heading ?? null}, ${speed ?? null}, ${accuracy ?? null}, ${now}, ${timestamp ?? null})
+        ON CONFLICT (driver_id)
+        DO UPDATE SET
+            latitude = ${latitude},
+            longitude = ${longitude},
+            heading = ${heading ?? null},
+            speed = ${speed ?? null},
+            accuracy = ${accuracy ?? null},
+            timestamp = ${now},
+            reported_at = ${timestamp ?? null}
+    `;
+
+    const currentRideId = drivers[0]!.current_ride_id ?? null;
+    await recordLocation(db, driverId, currentRideId, reading, now);
+
+    const location: DriverLocation = {
+        driverId,
+        latitude,
+        longitude,
+        heading,
+        speed,
+        accuracy,
+        timestamp: now,
+    };
+
+    publish(channelName('driver', driverId), { type: 'driverLocation', location });
+
+    if (currentRideId) {
+        // A location update is a heartbeat too (see driverPresence.ts)
+        await markDriverResponsive(db, currentRideId, driverId);
+        publish(channelName('ride', currentRideId), { type: 'driverLocation', location });
+
+        // Without holding up the location update, routing may take a while
+        trackPickup(db, currentRideId, location).catch((error) => {
+            console.error('Failed to track pickup:', error);
+        });
+    }
+
+    return location;
+}
@@ -0,0 +1,149 @@
+import type { Sql } from 'postgres';
+import type { DbClient } from './db';
+import type { DriverPresence, Ride } from './types';
+import { mapRowToRide } from './types';
+import { recordRideEvent } from './rideEvents';
+import { channelName, publish } from './realtime';
+import { notFound } from './errors';
+
+// Driver presence: an online driver's app proves it's alive with heartbeats, which are
+//   - location updates (PUT /api/drivers/:id/location, locationUpdate on /ws)
+//   - { type: 'ping' } on /ws, or opening the socket
+//   - POST /api/drivers/:id/heartbeat
+//   - picking an availability with PUT /api/drivers/availability
+// A sweeper on every instance takes drivers silent for HEARTBEAT_TIMEOUT_SECONDS offline, so matching
+// and the availability stats stop counting them. An unfinished ride the driver was on keeps them
+// assigned and is flagged with driverUnresponsiveSince (a driver_unresponsive event) until they're back
+// A driver taken offline is told so on their next heartbeat, see timedOutAt
+
+const HEARTBEAT_TIMEOUT_SECONDS = parseInt(Bun.env.DRIVER_HEARTBEAT_TIMEOUT_SECONDS || '120');
+const SWEEP_INTERVAL_SECONDS = parseInt(Bun.env.PRESENCE_SWEEP_INTERVAL_SECONDS || '30');
+
+let running = false;
+
+export function mapRowToDriverPresence(row: any): DriverPresence {
+    return {
+        driverId: row.id,
+        availability: row.availability,
+        lastHeartbeatAt: row.last_heartbeat_at ?? undefined,
+        timedOutAt: row.presence_timed_out_at ?? undefined,
+    };
+}
+
+// Lift the flag from the driver's ride once they're heard from again
+export async function markDriverResponsive(db: DbClient, rideId: string, driverId: string): Promise<Ride | null> {
+    const rows = await db`
+        UPDATE rides SET driver_unresponsive_since = NULL, updated_at = ${new Date().toISOString()}
+        WHERE id = ${rideId} AND assigned_driver_id = ${driverId} AND driver_unresponsive_since IS NOT NULL
+        RETURNING *
+    `;
+    if (rows.length === 0) return null;
+
+    await recordRideEvent(db, {
+        rideId,
+        type: 'driver_reconnected',
+        actorType: 'driver',
+        actorId: driverId,
+        driverId,
+        metadata: { unresponsiveSince: rows[0]!.driver_unresponsive_since },
+    });
+
+    const ride = mapRowToRide(rows[0]!);
+    publish(channelName('ride', rideId), { type: 'rideUpdated', ride });
+    return ride;
+}
+
+export async function recordHeartbeat(db: DbClient, driverId: string): Promise<DriverPresence> {
+    const rows = await db`
+        UPDATE drivers SET last_heartbeat_at = ${new Date().toISOString()}
+        WHERE id = ${driverId}
+        RETURNING id, availability, current_ride_id, last_heartbeat_at, presence_timed_out_at
+    `;
+
+    if (rows.length === 0) {
+        throw notFound('Driver not found');
+    }
+
+    const row = rows[0]!;
+    if (row.current_ride_id) {
+        await markDriverResponsive(db, row.current_ride_id, driverId);
+    }
+
+    return mapRowToDriverPresence(row);
+}
+
+async function sweep(sql: Sql) {
+    const now = new Date().toISOString();
+    const cutoff = new Date(Date.now() - HEARTBEAT_TIMEOUT_SECONDS * 1000).toISOString();
+
+    const flagged = await sql.begin(async (tx) => {
+        const stale = await tx`
+            WITH stale AS (
+                SELECT id, availability, COALESCE(last_heartbeat_at, last_location_update, updated_at) AS last_seen
+                FROM drivers
+                WHERE availability <> 'offline'
+                    AND COALESCE(last_heartbeat_at, last_location_update, updated_at) < ${cutoff}
+                FOR UPDATE SKIP LOCKED
+            )
+            UPDATE drivers d SET
+                availability = 'offline',
+                presence_timed_out_at = ${now},
+                updated_at = ${now}
+            FROM stale
+            WHERE d.id = stale.id
+            RETURNING d.id, d.current_ride_id, stale.availability AS previous_availability, stale.last_seen
+        `;
+
+        const rides: Ride[] = [];
+        for (const driver of stale) {
+            if (!driver.current_ride_id) continue;
+
+            const rows = await tx`
+                UPDATE rides SET driver_unresponsive_since = ${driver.last_seen}, updated_at = ${now}
+                WHERE id = ${driver.current_ride_id}
+                    AND assigned_driver_id = ${driver.id}
+                    AND status NOT IN ('completed', 'cancelled')
+                    AND driver_unresponsive_since IS NULL
+                RETURNING *
+            `;
+            if (rows.length === 0) continue;
+
+            await recordRideEvent(tx, {
+                rideId: driver.current_ride_id,
+                type: 'driver_unresponsive',
+                actorType: 'system',
+                driverId: driver.id,
+                metadata: { lastHeartbeatAt: driver.last_seen, previousAvailability: driver.previous_availability },
+            });
+            rides.push(mapRowToRide(rows[0]!));
+        }
+
+        if (stale.length > 0) {
+            console.log(`👻 Took ${stale.length} silent driver(s) offline, ${rides.length} ride(s) flagged`);
+        }
+        return rides;
+    });
+
+    for (const ride of flagged) {
+        publish(channelName('ride', ride.id), { type: 'rideUpdated', ride });
+    }
+}
+
+async function tick(sql: Sql) {
+    if (running) return;
+    running = true;
+
+    try {
+        await sweep(sql);
+    } catch (error) {
+        console.error('❗ Presence sweeper failed:', (error as Error).message);
+    } finally {
+        running = false;
+    }
+}
+
+export function startPresenceSweeper(sql: Sql) {
+    setInterval(() => void tick(sql), SWEEP_INTERVAL_SECONDS * 1000).unref();
+    void tick(sql);
+    console.log(`👻 Presence sweeper running every ${SWEEP_INTERVAL_SECONDS}s (drivers offline after ${HEARTBEAT_TIMEOUT_SECONDS}s without a heartbeat)`);
+}
@@ -1,42 +1,38 @@
-import { Elysia } from 'elysia';
+import { Elysia, t } from 'elysia';
 import { v4 as uuidv4 } from 'uuid';
-import type { DriverApplicationRequest, Driver, FullDriver, DriverAvailabilityUpdate, DriverUpdateRequest, DriverLocation, toSimpleDriver } from "./types.ts";
+import type {
+    DriverApplicationRequest, Driver, FullDriver, DriverAvailabilityUpdate, DriverUpdateRequest, Caller, Money, Ride, RideStatus,
+} from "./types.ts";
+import { mapRowToFullDriver, mapRowToMatchingPreferences, mapRowToRide } from "./types.ts";
+import { DEFAULT_CURRENCY, fromMajorUnits, isSupportedCurrency } from './money';
 import type { Sql } from 'postgres';
-
-function mapRowToFullDriver(row: any): FullDriver {
-    return {
-        id: row.id,
-        fullName: row.full_name,
-        email: row.email,
-        phoneNumber: row.phone_number,
-        address: row.address,
-        licenseNumber: row.license_number,
-        vehicleModel: row.vehicle_model,
-        vehicleYear: row.vehicle_year,
-        vehiclePlate: row.vehicle_plate,
-        motivation: row.motivation,
-        status: row.status,
-        availability: row.availability,
-        currentRideId: row.current_ride_id,
-        lastLocationUpdate: row.last_location_update,
-        latitude: row.latitude,
-        longitude: row.longitude,
-        applicationDate: row.application_date,
-        approvalDate: row.approval_date,
-        rejectionReason: row.rejection_reason,
-        username: row.username,
-        walletAddress: row.wallet_address,
-        isDriver: row.is_driver,
-        createdAt: row.created_at,
-        updatedAt: row.updated_at,
-        // Matching preferences
-        pricePerKm: row.price_per_km ?? 1.5,
-        minPricePerRide: row.min_price_per_ride ?? 5.0,
-        maxPickupRadiusKm: row.max_pickup_radius_km ?? 10.0,
-        vehicleType: row.vehicle_type ?? 1,
-        maxPassengers: row.max_passengers ?? 4,
-    };
-}
+import type { DbClient } from './db';
+import { authPlugin, canActForDriver, canSeeDriverLocation } from './auth';
+import { recordRideEvent } from './rideEvents';
+import { channelName, publish } from './realtime';
+import { getTransitionError } from './rideLifecycle';
+import { offerPendingRidesToAvailableDriver } from './rideOffers';
+import { getDriverDispatchStats } from './dispatch';
+import { getRouteMatrix } from './routing';
+import { findDriversNear } from './geoQueries';
+import { getDriverLocationAnomalies } from './locationAnomalies';
+import { markDriverResponsive, recordHeartbeat } from './driverPresence';
+import { MAX_PICKUP_RADIUS_KM } from './matching';
+import { LocationReadingFields, updateDriverLocation, type LocationReading } from './driverLocations';
+import { bindWallet, SiweSignatureBody, verifySiweSignature } from './siwe';
+import { badRequest, conflict, forbidden, notFound } from './errors';
+import {
+    DriverAvailabilitySchema, DriverStatusSchema, Email, Id, IdParams, Latitude, Limit,
+    Longitude, MoneySchema, NonEmptyString, Page,
+} from './schemas';
+import {
+    DriverDispatchStatsModel, DriverLocationAnomaliesModel, DriverLocationModel, DriverMatchingPreferencesModel, DriverModel,
+    DriverPresenceModel, FullDriverModel, MessageModel, responds,
+} from './openapi';
+
+// Starting matching prices for new drivers, in the default currency
+const DEFAULT_PRICE_PER_KM = fromMajorUnits(1.5);
+const DEFAULT_MIN_PRICE_PER_RIDE = fromMajorUnits(5);
 
 function mapRowToDriver(row: any): Driver {
     return {
@@ -50,912 +46,862 @@ function mapRowToDriver(row: any): Driver {
     };
 }
 
-function validateDriverApplication(data: DriverApplicationRequest): string | null {
-    if (!data.fullName?.trim()) return 'Full name is required';
-    if (!data.email?.trim()) return 'Email is required';
-    if (!data.phoneNumber?.trim()) return 'Phone number is required';
-    if (!data.licenseNumber?.trim()) return 'Driver\'s license number is required';
-    if (!data.vehicleModel?.trim()) return 'Vehicle model is required';
-    if (!data.vehiclePlate?.trim()) return 'Vehicle plate number is required';
+// Push matching pending rides to a driver subscribed over /ws, without holding up the response
+function offerPendingRides(db: Sql, driverId: string) {
+    offerPendingRidesToAvailableDriver(db, driverId).catch((error) => {
+        console.error('Failed to offer pending rides to driver:', error);
+    });
+}
+
+// A position sent along with an availability or ride change is a location update like any other:
+// checked for plausibility, stored, added to the history and published (see updateDriverLocation)
+async function reportPosition(db: Sql, driverId: string, { latitude, longitude }: { latitude?: number; longitude?: number }) {
+    if (latitude === undefined && longitude === undefined) return;
 
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(data.email)) return 'Invalid email format';
+    if (latitude === undefined || longitude === undefined) {
+        throw badRequest('latitude and longitude must be sent together');
+    }
 
-    return null;
+    await updateDriverLocation(db, driverId, { latitude, longitude });
 }
 
-export const driverRoutes = new Elysia({ prefix: '/api/drivers' })
-    // Check if driver application exists
-    .post('/check', async ({ body, db }: { body: { email: string }; db: Sql }) => {
-        try {
-            const { email } = body;
+// Lock a ride the driver is about to start or complete, ahead of the driver row (the order claimRide uses)
+// It has to be assigned to them and in a status that can move on to `next`
+async function lockAssignedRide(tx: DbClient, rideId: string, driverId: string, next: RideStatus) {
+    const rides = await tx`
+        SELECT id, status, assigned_driver_id FROM rides WHERE id = ${rideId} FOR UPDATE
+    `;
 
-            if (!email) {
-                return {
-                    error: 'Email is required',
-                    status: 400,
-                };
-            }
+    if (rides.length === 0) {
+        throw notFound('Ride not found');
+    }
 
-            const drivers = await db`
-                SELECT * FROM drivers WHERE email = ${email}
-            `;
+    const ride = rides[0]!;
 
-            if (drivers.length > 0) {
-                const existingDriver = mapRowToFullDriver(drivers[0]!);
-                return {
-                    exists: true,
-                    driver: existingDriver
-                };
-            }
+    if (ride.assigned_driver_id !== driverId) {
+        throw forbidden('Ride is not assigned to this driver');
+    }
 
-            return {
-                exists: false
-            };
+    const transitionError = getTransitionError(ride.status, next, true);
+    if (transitionError) {
+        throw conflict(transitionError);
+    }
+
+    return ride;
+}
+
+// Move a ride locked with lockAssignedRide on to `next`, with the same compare-and-swap on its
+// status as PUT /api/rides/:id/status
+async function moveAssignedRide(tx: DbClient, ride: any, next: RideStatus, now: string): Promise<Ride> {
+    const updated = await tx`
+        UPDATE rides SET status = ${next}, updated_at = ${now}
+        WHERE id = ${ride.id} AND status = ${ride.status}
+        RETURNING *
+    `;
+
+    if (updated.length === 0) {
+        throw conflict('Ride was modified by another request, reload and retry');
+    }
+
+    return mapRowToRide(updated[0]!);
+}
+
+const DriverApplicationBody = t.Object({
+    fullName: NonEmptyString,
+    email: Email,
+    phoneNumber: NonEmptyString,
+    address: t.String(),
+    licenseNumber: NonEmptyString,
+    vehicleModel: NonEmptyString,
+    vehicleYear: t.String({ pattern: '^[0-9]{4}$' }),
+    vehiclePlate: NonEmptyString,
+    motivation: t.Optional(t.String()),
+});
+
+const DriverUpdateBody = t.Object({
+    id: Id,
+    ...t.Partial(t.Omit(DriverApplicationBody, ['motivation'])).properties,
+    motivation: t.Optional(t.String()),
+    status: t.Optional(DriverStatusSchema),
+});
+
+// Driver position reported along with a ride or availability change
+const OptionalPosition = {
+    latitude: t.Optional(Latitude),
+    longitude: t.Optional(Longitude),
+};
+
+const DriverRideBody = t.Object({
+    driverId: Id,
+    rideId: Id,
+    ...OptionalPosition,
+});
+
+export const driverRoutes = new Elysia({ prefix: '/api/drivers', detail: { tags: ['Drivers'] } })
+    .use(authPlugin)
+
+    // Check if driver application exists (public - details are only returned to the driver themselves)
+    .post('/check', async ({ body, db, caller }: { body: { email: string }; db: Sql; caller: Caller | null }) => {
+        const { email } = body;
+
+        const drivers = await db`
+            SELECT * FROM drivers WHERE email = ${email}
+        `;
+
+        if (drivers.length > 0) {
+            const existingDriver = mapRowToFullDriver(drivers[0]!);
+
+            if (!canActForDriver(caller, existingDriver.id)) {
+                return { exists: true };
+            }
 
-        } catch (error) {
-            console.error('Error checking driver:', error);
             return {
-                error: 'Internal server error',
-                status: 500,
+                exists: true,
+                driver: existingDriver
             };
         }
-    })
+
+        return {
+            exists: false
+        };
+    }, { body: t.Object({ email: Email }), detail: responds(t.Object({ exists: t.Boolean(), driver: t.Optional(FullDriverModel) })) })
 
     // Submit new driver application
     .post('/apply', async ({ body, db }: { body: DriverApplicationRequest; db: Sql }) => {
-        try {
-            const applicationData = body;
+        const applicationData = body;
+
+        // Check if driver already exists
+        const existing = await db`
+            SELECT id FROM drivers WHERE email = ${applicationData.email}
+        `;
+        
+        if (existing.length > 0) {
+            throw conflict('Driver application already exists for this email');
+        }
 
-            // Validate application data
-            const validationError = validateDriverApplication(applicationData);
-            if (validationError) {
-                return {
-                    error: validationError,
-                    status: 400,
-                };
-            }
+        // Check if license number is already in use
+        const existingLicense = await db`
+            SELECT id FROM drivers WHERE license_number = ${applicationData.licenseNumber}
+        `;
+        
+        if (existingLicense.length > 0) {
+            throw conflict('Driver with this license number already exists');
+        }
 
-            // Check if driver already exists
-            const existing = await db`
-                SELECT id FROM drivers WHERE email = ${applicationData.email}
-            `;
-            
-            if (existing.length > 0) {
-                return {
-                    error: 'Driver application already exists for this email',
-                    status: 400,
-                };
-            }
+        // Check if vehicle plate is already in use
+        const existingPlate = await db`
+            SELECT id FROM drivers WHERE vehicle_plate = ${applicationData.vehiclePlate}
+        `;
+        
+        if (existingPlate.length > 0) {
+            throw conflict('Vehicle with this plate number is already registered');
+        }
 
-            // Check if license number is already in use
-            const existingLicense = await db`
-                SELECT id FROM drivers WHERE license_number = ${applicationData.licenseNumber}
-            `;
-            
-            if (existingLicense.length > 0) {
-                return {
-                    error: 'Driver with this license number already exists',
-                    status: 400,
-                };
-            }
+        // Create new driver application
+        const driverId = uuidv4();
+        const now = new Date().toISOString();
+
+        await db`
+            INSERT INTO drivers (
+                id, full_name, email, phone_number, address,
+                license_number, vehicle_model, vehicle_year, vehicle_plate,
+                motivation, status, availability, username, wallet_address, is_driver,
+                price_per_km_amount, min_price_per_ride_amount, price_currency,
+                application_date, created_at, updated_at
+            ) VALUES (
+                ${driverId}, ${applicationData.fullName}, ${applicationData.email},
+                ${applicationData.phoneNumber}, ${applicationData.address},
+                ${applicationData.licenseNumber}, ${applicationData.vehicleModel},
+                ${applicationData.vehicleYear}, ${applicationData.vehiclePlate},
+                ${applicationData.motivation || null}, 'pending', 'offline',
+                ${applicationData.fullName}, NULL, false,
+                ${DEFAULT_PRICE_PER_KM.amount}, ${DEFAULT_MIN_PRICE_PER_RIDE.amount}, ${DEFAULT_CURRENCY},
+                ${now}, ${now}, ${now}
+            )
+        `;
+
+        const responseDriver: Driver = {
+            id: driverId,
+            email: applicationData.email,
+            username: applicationData.fullName,
+            walletAddress: '',
+            isDriver: true,
+            createdAt: now,
+            updatedAt: now,
+        };
 
-            // Check if vehicle plate is already in use
-            const existingPlate = await db`
-                SELECT id FROM drivers WHERE vehicle_plate = ${applicationData.vehiclePlate}
-            `;
-            
-            if (existingPlate.length > 0) {
-                return {
-                    error: 'Vehicle with this plate number is already registered',
-                    status: 400,
-                };
-            }
+        return {
+            success: true,
+            driver: responseDriver,
+            message: 'Driver application submitted successfully'
+        };
+    }, { body: DriverApplicationBody, detail: responds(t.Object({ success: t.Boolean(), driver: DriverModel, message: t.String() })) })
 
-            // Create new driver application
-            const driverId = uuidv4();
-            const now = new Date().toISOString();
-
-            await db`
-                INSERT INTO drivers (
-                    id, full_name, email, phone_number, address,
-                    license_number, vehicle_model, vehicle_year, vehicle_plate,
-                    motivation, status, availability, username, wallet_address, is_driver,
-                    application_date, created_at, updated_at
-                ) VALUES (
-                    ${driverId}, ${applicationData.fullName}, ${applicationData.email},
-                    ${applicationData.phoneNumber}, ${applicationData.address},
-                    ${applicationData.licenseNumber}, ${applicationData.vehicleModel},
-                    ${applicationData.vehicleYear}, ${applicationData.vehiclePlate},
-                    ${applicationData.motivation || null}, 'pending', 'offline',
-                    ${applicationData.fullName}, '', false,
-                    ${now}, ${now}, ${now}
-                )
-            `;
+    // Update driver information or status
+    .put('/update', async ({ body, db, caller }: { body: DriverUpdateRequest; db: Sql; caller: Caller }) => {
+        const { id, ...updateData } = body;
 
-            const responseDriver: Driver = {
-                id: driverId,
-                email: applicationData.email,
-                username: applicationData.fullName,
-                walletAddress: '',
-                isDriver: true,
-                createdAt: now,
-                updatedAt: now,
-            };
+        if (!canActForDriver(caller, id)) {
+            throw forbidden('You can only update your own driver profile');
+        }
 
-            return {
-                success: true,
-                driver: responseDriver,
-                message: 'Driver application submitted successfully'
-            };
+        if (updateData.status && caller.role !== 'admin') {
+            throw forbidden('Only admins can change driver status');
+        }
 
-        } catch (error) {
-            console.error('Error creating driver application:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        // Get existing driver
+        const existing = await db`
+            SELECT * FROM drivers WHERE id = ${id}
+        `;
+        
+        if (existing.length === 0) {
+            throw notFound('Driver not found');
         }
-    })
 
-    // Update driver information or status
-    .put('/update', async ({ body, db }: { body: DriverUpdateRequest; db: Sql }) => {
-        try {
-            const { id, ...updateData } = body;
+        const existingDriver = existing[0]!;
 
-            if (!id) {
-                return {
-                    error: 'Driver ID is required',
-                    status: 400,
-                };
+        // Check for conflicts
+        if (updateData.email && updateData.email !== existingDriver.email) {
+            const emailConflict = await db`
+                SELECT id FROM drivers WHERE email = ${updateData.email}
+            `;
+            if (emailConflict.length > 0) {
+                throw conflict('Email already in use by another driver');
             }
+        }
 
-            // Get existing driver
-            const existing = await db`
-                SELECT * FROM drivers WHERE id = ${id}
+        if (updateData.licenseNumber && updateData.licenseNumber !== existingDriver.license_number) {
+            const licenseConflict = await db`
+                SELECT id FROM drivers WHERE license_number = ${updateData.licenseNumber}
             `;
-            
-            if (existing.length === 0) {
-                return {
-                    error: 'Driver not found',
-                    status: 404,
-                };
+            if (licenseConflict.length > 0) {
+                throw conflict('License number already in use');
             }
+        }
 
-            const existingDriver = existing[0]!;
-
-            // Check for conflicts
-            if (updateData.email && updateData.email !== existingDriver.email) {
-                const emailConflict = await db`
-                    SELECT id FROM drivers WHERE email = ${updateData.email}
-                `;
-                if (emailConflict.length > 0) {
-                    return {
-                        error: 'Email already in use by another driver',
-                        status: 400,
-                    };
-                }
+        if (updateData.vehiclePlate && updateData.vehiclePlate !== existingDriver.vehicle_plate) {
+            const plateConflict = await db`
+                SELECT id FROM drivers WHERE vehicle_plate = ${updateData.vehiclePlate}
+            `;
+            if (plateConflict.length > 0) {
+                throw conflict('Vehicle plate already in use');
             }
+        }
 
-            if (updateData.licenseNumber && updateData.licenseNumber !== existingDriver.license_number) {
-                const licenseConflict = await db`
-                    SELECT id FROM drivers WHERE license_number = ${updateData.licenseNumber}
+        const now = new Date().toISOString();
+        const approvalDate = updateData.status === 'approved' && existingDriver.status !== 'approved' ? now : existingDriver.approval_date;
+
+        // Build update query
+        const result = await db`
+            UPDATE drivers SET
+                ${updateData.fullName ? db`full_name = ${updateData.fullName},` : db``}
+                ${updateData.email ? db`email = ${updateData.email},` : db``}
+                ${updateData.phoneNumber ? db`phone_number = ${updateData.phoneNumber},` : db``}
+                ${updateData.address ? db`address = ${updateData.address},` : db``}
+                ${updateData.licenseNumber ? db`license_number = ${updateData.licenseNumber},` : db``}
+                ${updateData.vehicleModel ? db`vehicle_model = ${updateData.vehicleModel},` : db``}
+                ${updateData.vehicleYear ? db`vehicle_year = ${updateData.vehicleYear},` : db``}
+                ${updateData.vehiclePlate ? db`vehicle_plate = ${updateData.vehiclePlate},` : db``}
+                ${updateData.motivation !== undefined ? db`motivation = ${updateData.motivation},` : db``}
+                ${updateData.status ? db`status = ${updateData.status},` : db``}
+                ${approvalDate && approvalDate !== existingDriver.approval_date ? db`approval_date = ${approvalDate},` : db``}
+                updated_at = ${now}
+            WHERE id = ${id}
+            RETURNING *
+        `;
+
+        // Update user's isDriver status if driver is approved
+        if (updateData.status === 'approved' && existingDriver.status !== 'approved') {
+            try {
+                await db`
+                    UPDATE users 
+                    SET is_driver = true, driver_id = ${id}, updated_at = ${now}
+                    WHERE email = ${existingDriver.email}
                 `;
-                if (licenseConflict.length > 0) {
-                    return {
-                        error: 'License number already in use',
-                        status: 400,
-                    };
-                }
+                console.log(`✅ Updated user ${existingDriver.email} isDriver status to true`);
+            } catch (error) {
+                console.error('❌ Failed to update user isDriver status:', error);
             }
+        }
 
-            if (updateData.vehiclePlate && updateData.vehiclePlate !== existingDriver.vehicle_plate) {
-                const plateConflict = await db`
-                    SELECT id FROM drivers WHERE vehicle_plate = ${updateData.vehiclePlate}
-                `;
-                if (plateConflict.length > 0) {
-                    return {
-                        error: 'Vehicle plate already in use',
-                        status: 400,
-                    };
-                }
-            }
+        const updatedDriver = mapRowToFullDriver(result[0]!);
+        return {
+            success: true,
+            driver: updatedDriver
+        };
+    }, { roles: ['driver', 'admin'], body: DriverUpdateBody, detail: responds(t.Object({ success: t.Boolean(), driver: FullDriverModel })) })
+
+    // Get driver by ID
+    .get('/:id', async ({ params, db }: { params: { id: string }; db: Sql }) => {
+        const { id } = params;
 
-            const now = new Date().toISOString();
-            const approvalDate = updateData.status === 'approved' && existingDriver.status !== 'approved' ? now : existingDriver.approval_date;
+        const drivers = await db`
+            SELECT * FROM drivers WHERE id = ${id}
+        `;
 
-            // Build update query
-            const result = await db`
-                UPDATE drivers SET
-                    ${updateData.fullName ? db`full_name = ${updateData.fullName},` : db``}
-                    ${updateData.email ? db`email = ${updateData.email},` : db``}
-                    ${updateData.phoneNumber ? db`phone_number = ${updateData.phoneNumber},` : db``}
-                    ${updateData.address ? db`address = ${updateData.address},` : db``}
-                    ${updateData.licenseNumber ? db`license_number = ${updateData.licenseNumber},` : db``}
-                    ${updateData.vehicleModel ? db`vehicle_model = ${updateData.vehicleModel},` : db``}
-                    ${updateData.vehicleYear ? db`vehicle_year = ${updateData.vehicleYear},` : db``}
-                    ${updateData.vehiclePlate ? db`vehicle_plate = ${updateData.vehiclePlate},` : db``}
-                    ${updateData.motivation !== undefined ? db`motivation = ${updateData.motivation},` : db``}
-                    ${updateData.status ? db`status = ${updateData.status},` : db``}
-                    ${approvalDate && approvalDate !== existingDriver.approval_date ? db`approval_date = ${approvalDate},` : db``}
-                    updated_at = ${now}
-                WHERE id = ${id}
-                RETURNING *
-            `;
+        if (drivers.length === 0) {
+            throw notFound('Driver not found');
+        }
 
-            // Update user's isDriver status if driver is approved
-            if (updateData.status === 'approved' && existingDriver.status !== 'approved') {
-                try {
-                    await db`
-                        UPDATE users 
-                        SET is_driver = true, driver_id = ${id}, updated_at = ${now}
-                        WHERE email = ${existingDriver.email}
-                    `;
-                    console.log(`✅ Updated user ${existingDriver.email} isDriver status to true`);
-                } catch (error) {
-                    console.error('❌ Failed to update user isDriver status:', error);
-                }
-            }
+        const driver = mapRowToDriver(drivers[0]!);
+        return { driver };
+    }, { roles: ['rider', 'driver', 'admin'], params: IdParams, detail: responds(t.Object({ driver: DriverModel })) })
 
-            const updatedDriver = mapRowToFullDriver(result[0]!);
-            return {
-                success: true,
-                driver: updatedDriver
-            };
+    // Update driver availability status
+    .put('/availability', async ({ body, db, caller }: { body: DriverAvailabilityUpdate; db: Sql; caller: Caller }) => {
+        const { driverId, availability, currentRideId, latitude, longitude } = body;
 
-        } catch (error) {
-            console.error('Error updating driver:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        if (!canActForDriver(caller, driverId)) {
+            throw forbidden('You can only change your own availability');
         }
-    })
 
-    // Get driver by ID
-    .get('/:id', async ({ params, db }: { params: { id: string }; db: Sql }) => {
-        try {
-            const { id } = params;
+        // Get existing driver
+        const drivers = await db`
+            SELECT * FROM drivers WHERE id = ${driverId}
+        `;
+        
+        if (drivers.length === 0) {
+            throw notFound('Driver not found');
+        }
 
-            const drivers = await db`
-                SELECT * FROM drivers WHERE id = ${id}
-            `;
+        const driver = drivers[0]!;
 
-            if (drivers.length === 0) {
-                return {
-                    error: 'Driver not found',
-                    status: 404,
-                };
-            }
+        if (driver.status !== 'approved') {
+            throw badRequest('Only approved drivers can change availability status');
+        }
 
-            const driver = mapRowToDriver(drivers[0]!);
-            return { driver };
+        // Validate availability transitions
+        if (availability === 'online_busy' && !currentRideId) {
+            throw badRequest('Ride ID is required when setting status to busy');
+        }
 
-        } catch (error) {
-            console.error('Error fetching driver:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        if (availability !== 'online_busy' && currentRideId) {
+            throw badRequest('Ride ID should only be provided when status is busy');
         }
-    })
 
-    // Update driver availability status
-    .put('/availability', async ({ body, db }: { body: DriverAvailabilityUpdate; db: Sql }) => {
-        try {
-            const { driverId, availability, currentRideId, latitude, longitude } = body;
+        // Drivers can only be busy with a ride assigned to them
+        if (currentRideId) {
+            const rides = await db`
+                SELECT assigned_driver_id FROM rides WHERE id = ${currentRideId}
+            `;
 
-            if (!driverId || !availability) {
-                return {
-                    error: 'Driver ID and availability status are required',
-                    status: 400,
-                };
+            if (rides.length === 0) {
+                throw notFound('Ride not found');
             }
 
-            // Get existing driver
-            const drivers = await db`
-                SELECT * FROM drivers WHERE id = ${driverId}
-            `;
-            
-            if (drivers.length === 0) {
-                return {
-                    error: 'Driver not found',
-                    status: 404,
-                };
+            if (rides[0]!.assigned_driver_id !== driverId) {
+                throw forbidden('Ride is not assigned to this driver');
             }
+        }
 
-            const driver = drivers[0]!;
-
-            if (driver.status !== 'approved') {
-                return {
-                    error: 'Only approved drivers can change availability status',
-                    status: 400,
-                };
-            }
+        await reportPosition(db, driverId, { latitude, longitude });
 
-            // Validate availability transitions
-            if (availability === 'online_busy' && !currentRideId) {
-                return {
-                    error: 'Ride ID is required when setting status to busy',
-                    status: 400,
-                };
-            }
+        const now = new Date().toISOString();
+        const rideIdValue = availability === 'online_busy' ? (currentRideId || null) : null;
 
-            if (availability !== 'online_busy' && currentRideId) {
-                return {
-                    error: 'Ride ID should only be provided when status is busy',
-                    status: 400,
-                };
-            }
+        const result = await db`
+            UPDATE drivers SET
+                availability = ${availability},
+                current_ride_id = ${rideIdValue},
+                last_location_update = ${now},
+                last_heartbeat_at = ${now},
+                presence_timed_out_at = NULL,
+                updated_at = ${now}
+            WHERE id = ${driverId}
+            RETURNING *
+        `;
 
-            const now = new Date().toISOString();
-            const rideIdValue = availability === 'online_busy' ? (currentRideId || null) : null;
-
-            let result;
-            if (latitude !== undefined && longitude !== undefined) {
-                result = await db`
-                    UPDATE drivers SET
-                        availability = ${availability},
-                        current_ride_id = ${rideIdValue},
-                        latitude = ${latitude},
-                        longitude = ${longitude},
-                        last_location_update = ${now},
-                        updated_at = ${now}
-                    WHERE id = ${driverId}
-                    RETURNING *
-                `;
-            } else {
-                result = await db`
-                    UPDATE drivers SET
-                        availability = ${availability},
-                        current_ride_id = ${rideIdValue},
-                        last_location_update = ${now},
-                        updated_at = ${now}
-                    WHERE id = ${driverId}
-                    RETURNING *
-                `;
-            }
+        const updatedDriver = mapRowToFullDriver(result[0]!);
 
-            const updatedDriver = mapRowToFullDriver(result[0]!);
-            return {
-                success: true,
-                driver: updatedDriver
-            };
+        // Picking an availability is a heartbeat, back on a ride flagged while they were away (see driverPresence.ts)
+        if (rideIdValue) {
+            await markDriverResponsive(db, rideIdValue, driverId);
+        }
 
-        } catch (error) {
-            console.error('Error updating driver availability:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        // A driver who just became free is offered the pending rides that match them
+        if (availability === 'online_free' && driver.availability !== 'online_free') {
+            offerPendingRides(db, driverId);
         }
+
+        return {
+            success: true,
+            driver: updatedDriver
+        };
+    }, {
+        roles: ['driver', 'admin'],
+        body: t.Object({
+            driverId: Id,
+            availability: DriverAvailabilitySchema,
+            currentRideId: t.Optional(Id),
+            ...OptionalPosition,
+        }),
+        detail: responds(t.Object({ success: t.Boolean(), driver: FullDriverModel })),
     })
 
     // Get drivers by availability status
-    .get('/availability/:status', async ({ params, query, db }: {
-        params: { status: string };
-        query: { latitude?: string; longitude?: string; radius?: string; limit?: string };
+    .get('/availability/:status', async ({ params, query, db, caller }: {
+        params: { status: FullDriver['availability'] };
+        query: { latitude?: number; longitude?: number; radius: number; limit: number };
         db: Sql;
+        caller: Caller;
     }) => {
-        try {
-            const { status } = params;
-            const { latitude, longitude, radius = '10', limit = '50' } = query;
-
-            if (!['offline', 'online_free', 'online_busy'].includes(status)) {
-                return {
-                    error: 'Invalid availability status',
-                    status: 400,
-                };
-            }
-
-            let drivers;
-            
-            if (latitude && longitude && status === 'online_free') {
-                const userLat = parseFloat(latitude);
-                const userLng = parseFloat(longitude);
-                const radiusKm = parseFloat(radius);
-                const limitNum = parseInt(limit);
-
-                // Use Haversine formula in SQL
-                drivers = await db`
-                    SELECT *,
-                        (6371 * acos(
-                            cos(radians(${userLat})) * cos(radians(latitude)) *
-                            cos(radians(longitude) - radians(${userLng})) +
-                            sin(radians(${userLat})) * sin(radians(latitude))
-                        )) AS distance
-                    FROM drivers
-                    WHERE availability = ${status}
-                        AND latitude IS NOT NULL
-                        AND longitude IS NOT NULL
-                    HAVING distance <= ${radiusKm}
-                    ORDER BY distance
-                    LIMIT ${limitNum}
-                `;
-            } else {
-                const limitNum = parseInt(limit);
-                drivers = await db`
-                    SELECT * FROM drivers
-                    WHERE availability = ${status}
-                    ORDER BY updated_at DESC
-                    LIMIT ${limitNum}
-                `;
-            }
-
-            const fullDrivers = drivers.map(mapRowToFullDriver);
-            return {
-                drivers: fullDrivers,
-                count: fullDrivers.length
-            };
-
-        } catch (error) {
-            console.error('Error fetching drivers by availability:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        const { status } = params;
+        const { latitude, longitude, radius, limit } = query;
+
+        let drivers;
+        
+        if (latitude !== undefined && longitude !== undefined && status === 'online_free') {
+            const userLat = latitude;
+            const userLng = longitude;
+            const radiusKm = radius;
+            const limitNum = limit;
+
+            // A road is never shorter than the straight line, so drivers within the radius as the
+            // crow flies (see geoQueries.ts) are the ones to measure along the road (see routing.ts)
+            const nearby = await findDriversNear(
+                db, { latitude: userLat, longitude: userLng }, radiusKm, db`AND d.availability = ${status}`
+            );
+
+            const routes = await getRouteMatrix(
+                nearby.map((row) => ({ latitude: row.latitude, longitude: row.longitude })),
+                [{ latitude: userLat, longitude: userLng }]
+            );
+
+            drivers = nearby
+                .map((row, index) => ({ row, route: routes[index]![0] }))
+                .filter(({ route }) => route && route.distanceKm <= radiusKm)
+                .sort((a, b) => a.route!.distanceKm - b.route!.distanceKm)
+                .slice(0, limitNum)
+                .map(({ row }) => row);
+        } else {
+            const limitNum = limit;
+            drivers = await db`
+                SELECT * FROM drivers
+                WHERE availability = ${status}
+                ORDER BY updated_at DESC
+                LIMIT ${limitNum}
+            `;
         }
+
+        // Contact details, address and licence are for admins, everyone else gets the public view
+        const visibleDrivers = caller.role === 'admin' ? drivers.map(mapRowToFullDriver) : drivers.map(mapRowToDriver);
+        return {
+            drivers: visibleDrivers,
+            count: visibleDrivers.length
+        };
+    }, {
+        roles: ['rider', 'driver', 'admin'],
+        params: t.Object({ status: DriverAvailabilitySchema }),
+        query: t.Object({
+            ...OptionalPosition,
+            radius: t.Number({ exclusiveMinimum: 0, maximum: 100, default: 10 }),
+            limit: Limit(50),
+        }),
+        detail: responds(t.Object({ drivers: t.Array(t.Union([FullDriverModel, DriverModel])), count: t.Integer() })),
     })
 
     // Get driver location
-    .get('/:id/location', async ({ params, db }: {
+    .get('/:id/location', async ({ params, db, caller }: {
         params: { id: string };
         db: Sql;
+        caller: Caller;
     }) => {
-        try {
-            const { id: driverId } = params;
-
-            // First try to get location from dedicated location storage
-            const locations = await db`
-                SELECT * FROM driver_locations WHERE driver_id = ${driverId}
-            `;
+        const { id: driverId } = params;
 
-            if (locations.length === 0) {
-                // Fallback: get location from driver record
-                const drivers = await db`
-                    SELECT latitude, longitude, last_location_update 
-                    FROM drivers 
-                    WHERE id = ${driverId}
-                `;
-
-                if (drivers.length > 0 && drivers[0]!.latitude && drivers[0]!.longitude) {
-                    return {
-                        location: {
-                            driverId,
-                            latitude: drivers[0]!.latitude,
-                            longitude: drivers[0]!.longitude,
-                            timestamp: drivers[0]!.last_location_update || new Date().toISOString(),
-                        }
-                    };
-                }
-
-                return { location: null };
-            }
-
-            const loc = locations[0]!;
-            return {
-                location: {
-                    driverId: loc.driver_id,
-                    latitude: loc.latitude,
-                    longitude: loc.longitude,
-                    heading: loc.heading,
-                    speed: loc.speed,
-                    accuracy: loc.accuracy,
-                    timestamp: loc.timestamp,
-                }
-            };
-
-        } catch (error) {
-            console.error('Error getting driver location:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        if (!await canSeeDriverLocation(db, caller, driverId)) {
+            throw forbidden('You can only see the location of your own driver');
         }
-    })
-
-    // Update driver location
-    .put('/:id/location', async ({ params, body, db }: {
-        params: { id: string };
-        body: {
-            latitude: number;
-            longitude: number;
-            heading?: number;
-            speed?: number;
-            accuracy?: number;
-        };
-        db: Sql;
-    }) => {
-        try {
-            const { id: driverId } = params;
-            const { latitude, longitude, heading, speed, accuracy } = body;
 
-            if (typeof latitude !== 'number' || typeof longitude !== 'number') {
-                return {
-                    error: 'Valid latitude and longitude are required',
-                    status: 400,
-                };
-            }
+        // First try to get location from dedicated location storage
+        const locations = await db`
+            SELECT * FROM driver_locations WHERE driver_id = ${driverId}
+        `;
 
-            // Check if driver exists
+        if (locations.length === 0) {
+            // Fallback: get location from driver record
             const drivers = await db`
-                SELECT id FROM drivers WHERE id = ${driverId}
+                SELECT latitude, longitude, last_location_update 
+                FROM drivers 
+                WHERE id = ${driverId}
             `;
-            
-            if (drivers.length === 0) {
+
+            if (drivers.length > 0 && drivers[0]!.latitude && drivers[0]!.longitude) {
                 return {
-                    error: 'Driver not found',
-                    status: 404,
+                    location: {
+                        driverId,
+                        latitude: drivers[0]!.latitude,
+                        longitude: drivers[0]!.longitude,
+                        timestamp: drivers[0]!.last_location_update || new Date().toISOString(),
+                    }
                 };
             }
 
-            const now = new Date().toISOString();
-
-            // Upsert location in driver_locations table
-            await db`
-                INSERT INTO driver_locations (driver_id, latitude, longitude, heading, speed, accuracy, timestamp)
-                VALUES (${driverId}, ${latitude}, ${longitude}, ${heading || null}, ${speed || null}, ${accuracy || null}, ${now})
-                ON CONFLICT (driver_id) 
-                DO UPDATE SET
-                    latitude = ${latitude},
-                    longitude = ${longitude},
-                    heading = ${heading || null},
-                    speed = ${speed || null},
-                    accuracy = ${accuracy || null},
-                    timestamp = ${now}
-            `;
-
-            // Also update the driver record with latest location
-            await db`
-                UPDATE drivers 
-                SET 
-                    latitude = ${latitude},
-                    longitude = ${longitude},
-                    last_location_update = ${now},
-                    updated_at = ${now}
-                WHERE id = ${driverId}
-            `;
+            return { location: null };
+        }
 
-            const locationUpdate = {
-                driverId,
-                latitude,
-                longitude,
-                heading,
-                speed,
-                accuracy,
-                timestamp: now,
-            };
+        const loc = locations[0]!;
+        return {
+            location: {
+                driverId: loc.driver_id,
+                latitude: loc.latitude,
+                longitude: loc.longitude,
+                heading: loc.heading,
+                speed: loc.speed,
+                accuracy: loc.accuracy,
+                timestamp: loc.timestamp,
+            }
+        };
+    }, { roles: ['rider', 'driver', 'admin'], params: IdParams, detail: responds(t.Object({ location: t.Nullable(DriverLocationModel) })) })
 
-            return {
-                success: true,
-                location: locationUpdate
-            };
+    // Update driver location (also pushed to /ws subscribers, see updateDriverLocation)
+    .put('/:id/location', async ({ params, body, db, caller }: {
+        params: { id: string };
+        body: LocationReading;
+        db: Sql;
+        caller: Caller;
+    }) => {
+        const { id: driverId } = params;
 
-        } catch (error) {
-            console.error('Error updating driver location:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        if (!canActForDriver(caller, driverId)) {
+            throw forbidden('You can only update your own location');
         }
+
+        const location = await updateDriverLocation(db, driverId, body);
+
+        return {
+            success: true,
+            location
+        };
+    }, {
+        roles: ['driver', 'admin'],
+        params: IdParams,
+        body: t.Object(LocationReadingFields),
+        detail: responds(t.Object({ success: t.Boolean(), location: DriverLocationModel })),
     })
 
-    // Update driver wallet address
-    .put('/:id/wallet', async ({ params, body, db }: {
+    // Heartbeat for apps that don't keep a /ws connection or send locations (see driverPresence.ts)
+    // timedOutAt in the answer means the driver was taken offline while silent
+    .post('/:id/heartbeat', async ({ params, db, caller }: {
         params: { id: string };
-        body: { walletAddress: string };
         db: Sql;
+        caller: Caller;
     }) => {
-        try {
-            const { id } = params;
-            const { walletAddress } = body;
+        const { id: driverId } = params;
 
-            if (!walletAddress) {
-                return {
-                    error: 'Wallet address is required',
-                    status: 400,
-                };
-            }
+        if (!canActForDriver(caller, driverId)) {
+            throw forbidden('You can only send your own heartbeat');
+        }
 
-            const now = new Date().toISOString();
+        return {
+            presence: await recordHeartbeat(db, driverId)
+        };
+    }, { roles: ['driver', 'admin'], params: IdParams, detail: responds(t.Object({ presence: DriverPresenceModel })) })
 
-            const result = await db`
-                UPDATE drivers 
-                SET wallet_address = ${walletAddress}, updated_at = ${now}
-                WHERE id = ${id}
-                RETURNING *
-            `;
+    // Update driver wallet address (requires a SIWE message signed by the new wallet)
+    .put('/:id/wallet', async ({ params, body, db, caller }: {
+        params: { id: string };
+        body: { message: string; signature: string; walletAddress?: string };
+        db: Sql;
+        caller: Caller;
+    }) => {
+        const { id } = params;
+        const { message, signature, walletAddress } = body;
 
-            if (result.length === 0) {
-                return {
-                    error: 'Driver not found',
-                    status: 404,
-                };
-            }
+        if (!canActForDriver(caller, id)) {
+            throw forbidden('You can only update your own wallet');
+        }
 
-            const driver = mapRowToDriver(result[0]!);
-            return {
-                success: true,
-                driver
-            };
+        const address = await verifySiweSignature(db, message, signature);
 
-        } catch (error) {
-            console.error('Error updating driver wallet:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        if (walletAddress && walletAddress.toLowerCase() !== address.toLowerCase()) {
+            throw badRequest('Wallet address does not match the signer');
         }
+
+        const row = await bindWallet(db, { kind: 'driver', id }, address);
+
+        const driver = mapRowToDriver(row);
+        return {
+            success: true,
+            driver
+        };
+    }, {
+        roles: ['driver', 'admin'],
+        params: IdParams,
+        body: t.Object({
+            ...SiweSignatureBody,
+            walletAddress: t.Optional(t.String({ pattern: '^0x[0-9a-fA-F]{40}$' })),
+        }),
+        detail: responds(t.Object({ success: t.Boolean(), driver: DriverModel })),
     })
 
-    // Start a ride (set driver as busy)
-    .post('/start-ride', async ({ body, db }: { 
+    // Start a ride (set driver as busy, ride in_progress)
+    .post('/start-ride', async ({ body, db, caller }: { 
         body: { driverId: string; rideId: string; latitude?: number; longitude?: number }; 
-        db: Sql 
+        db: Sql;
+        caller: Caller;
     }) => {
-        try {
-            const { driverId, rideId, latitude, longitude } = body;
+        const { driverId, rideId, latitude, longitude } = body;
 
-            if (!driverId || !rideId) {
-                return {
-                    error: 'Driver ID and Ride ID are required',
-                    status: 400,
-                };
-            }
+        if (!canActForDriver(caller, driverId)) {
+            throw forbidden('You can only start your own rides');
+        }
 
-            const drivers = await db`
-                SELECT * FROM drivers WHERE id = ${driverId}
+        await reportPosition(db, driverId, { latitude, longitude });
+
+        const now = new Date().toISOString();
+
+        const result = await db.begin(async (tx) => {
+            const ride = await lockAssignedRide(tx, rideId, driverId, 'in_progress');
+
+            const drivers = await tx`
+                SELECT * FROM drivers WHERE id = ${driverId} FOR UPDATE
             `;
-            
+
             if (drivers.length === 0) {
-                return {
-                    error: 'Driver not found',
-                    status: 404,
-                };
+                throw notFound('Driver not found');
             }
 
             const driver = drivers[0]!;
 
-            if (driver.availability !== 'online_free') {
-                return {
-                    error: 'Driver must be online and free to start a ride',
-                    status: 400,
-                };
-            }
+            // Drivers who claimed the ride through assign-driver are already busy with it
+            const alreadyOnRide = driver.availability === 'online_busy' && driver.current_ride_id === rideId;
 
-            const now = new Date().toISOString();
+            if (driver.availability !== 'online_free' && !alreadyOnRide) {
+                throw badRequest('Driver must be online and free to start a ride');
+            }
 
-            const result = await db`
+            const updated = await tx`
                 UPDATE drivers SET
                     availability = 'online_busy',
                     current_ride_id = ${rideId},
-                    ${latitude !== undefined ? db`latitude = ${latitude},` : db``}
-                    ${longitude !== undefined ? db`longitude = ${longitude},` : db``}
                     last_location_update = ${now},
+                    last_heartbeat_at = ${now},
                     updated_at = ${now}
                 WHERE id = ${driverId}
                 RETURNING *
             `;
 
-            const updatedDriver = mapRowToFullDriver(result[0]!);
-            return {
-                success: true,
-                driver: updatedDriver,
-                message: 'Ride started successfully'
-            };
+            const startedRide = await moveAssignedRide(tx, ride, 'in_progress', now);
 
-        } catch (error) {
-            console.error('Error starting ride:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
-        }
-    })
+            await recordRideEvent(tx, {
+                rideId,
+                type: 'ride_started',
+                actorType: caller.role,
+                actorId: caller.id,
+                previousStatus: ride.status,
+                nextStatus: startedRide.status,
+                driverId,
+                driverLat: updated[0]!.latitude,
+                driverLng: updated[0]!.longitude,
+            });
+
+            return { updated, ride: startedRide };
+        });
+
+        publish(channelName('ride', rideId), { type: 'rideUpdated', ride: result.ride });
+
+        const updatedDriver = mapRowToFullDriver(result.updated[0]!);
+        return {
+            success: true,
+            driver: updatedDriver,
+            message: 'Ride started successfully'
+        };
+    }, { roles: ['driver', 'admin'], body: DriverRideBody, detail: responds(t.Object({ success: t.Boolean(), driver: FullDriverModel, message: t.String() })) })
 
-    // Complete a ride (set driver as free)
-    .post('/complete-ride', async ({ body, db }: { 
+    // Complete a ride (set driver as free, ride completed)
+    .post('/complete-ride', async ({ body, db, caller }: { 
         body: { driverId: string; rideId: string; latitude?: number; longitude?: number }; 
-        db: Sql 
+        db: Sql;
+        caller: Caller;
     }) => {
-        try {
-            const { driverId, rideId, latitude, longitude } = body;
+        const { driverId, rideId, latitude, longitude } = body;
 
-            if (!driverId || !rideId) {
-                return {
-                    error: 'Driver ID and Ride ID are required',
-                    status: 400,
-                };
-            }
+        if (!canActForDriver(caller, driverId)) {
+            throw forbidden('You can only complete your own rides');
+        }
 
-            const drivers = await db`
-                SELECT * FROM drivers WHERE id = ${driverId}
+        await reportPosition(db, driverId, { latitude, longitude });
+
+        const now = new Date().toISOString();
+
+        const result = await db.begin(async (tx) => {
+            const ride = await lockAssignedRide(tx, rideId, driverId, 'completed');
+
+            const drivers = await tx`
+                SELECT * FROM drivers WHERE id = ${driverId} FOR UPDATE
             `;
-            
+
             if (drivers.length === 0) {
-                return {
-                    error: 'Driver not found',
-                    status: 404,
-                };
+                throw notFound('Driver not found');
             }
 
             const driver = drivers[0]!;
 
             if (driver.availability !== 'online_busy' || driver.current_ride_id !== rideId) {
-                return {
-                    error: 'Driver is not currently on this ride',
-                    status: 400,
-                };
+                throw badRequest('Driver is not currently on this ride');
             }
 
-            const now = new Date().toISOString();
-
-            const result = await db`
+            const updated = await tx`
                 UPDATE drivers SET
                     availability = 'online_free',
                     current_ride_id = NULL,
-                    ${latitude !== undefined ? db`latitude = ${latitude},` : db``}
-                    ${longitude !== undefined ? db`longitude = ${longitude},` : db``}
                     last_location_update = ${now},
+                    last_heartbeat_at = ${now},
                     updated_at = ${now}
                 WHERE id = ${driverId}
                 RETURNING *
             `;
 
-            const updatedDriver = mapRowToFullDriver(result[0]!);
-            return {
-                success: true,
-                driver: updatedDriver,
-                message: 'Ride completed successfully'
-            };
+            const completedRide = await moveAssignedRide(tx, ride, 'completed', now);
 
-        } catch (error) {
-            console.error('Error completing ride:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
-        }
-    })
+            await recordRideEvent(tx, {
+                rideId,
+                type: 'ride_completed',
+                actorType: caller.role,
+                actorId: caller.id,
+                previousStatus: ride.status,
+                nextStatus: completedRide.status,
+                driverId,
+                driverLat: updated[0]!.latitude,
+                driverLng: updated[0]!.longitude,
+            });
 
-    // Get driver statistics
-    .get('/stats/availability', async ({ db }: { db: Sql }) => {
-        try {
-            const stats = await db`
-                SELECT 
-                    availability,
-                    COUNT(*) as count
-                FROM drivers
-                GROUP BY availability
-            `;
+            return { updated, ride: completedRide };
+        });
 
-            const availability = {
-                offline: 0,
-                online_free: 0,
-                online_busy: 0,
-                total: 0
-            };
+        publish(channelName('ride', rideId), { type: 'rideUpdated', ride: result.ride });
 
-            stats.forEach((row: any) => {
-                const status = row.availability as 'offline' | 'online_free' | 'online_busy';
-                availability[status] = parseInt(row.count as string);
-                availability.total += parseInt(row.count as string);
-            });
+        const updatedDriver = mapRowToFullDriver(result.updated[0]!);
+        offerPendingRides(db, driverId);
 
-            return { availability };
+        return {
+            success: true,
+            driver: updatedDriver,
+            message: 'Ride completed successfully'
+        };
+    }, { roles: ['driver', 'admin'], body: DriverRideBody, detail: responds(t.Object({ success: t.Boolean(), driver: FullDriverModel, message: t.String() })) })
 
-        } catch (error) {
-            console.error('Error fetching availability stats:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
-        }
-    })
+    // Get driver statistics
+    .get('/stats/availability', async ({ db }: { db: Sql }) => {
+        const stats = await db`
+            SELECT 
+                availability,
+                COUNT(*) as count
+            FROM drivers
+            GROUP BY availability
+        `;
+
+        const availability = {
+            offline: 0,
+            online_free: 0,
+            online_busy: 0,
+            total: 0
+        };
 
-    // Get all drivers with optional status filter
-    .get('/', async ({ query, db }: { query: { status?: string; page?: string; limit?: string }; db: Sql }) => {
-        try {
-            const status = query.status;
-            const page = parseInt(query.page || '1');
-            const limit = parseInt(query.limit || '50');
-            const offset = (page - 1) * limit;
-
-            let drivers;
-            let totalResult;
-
-            if (status) {
-                drivers = await db`
-                    SELECT * FROM drivers
-                    WHERE status = ${status}
-                    ORDER BY application_date DESC
-                    LIMIT ${limit} OFFSET ${offset}
-                `;
-                totalResult = await db`
-                    SELECT COUNT(*) as count FROM drivers WHERE status = ${status}
-                `;
-            } else {
-                drivers = await db`
-                    SELECT * FROM drivers
-                    ORDER BY application_date DESC
-                    LIMIT ${limit} OFFSET ${offset}
-                `;
-                totalResult = await db`
-                    SELECT COUNT(*) as count FROM drivers
-                `;
-            }
+        stats.forEach((row: any) => {
+            const status = row.availability as 'offline' | 'online_free' | 'online_busy';
+            availability[status] = parseInt(row.count as string);
+            availability.total += parseInt(row.count as string);
+        });
+
+        return { availability };
+    }, { roles: ['admin'], detail: responds(t.Object({
+            availability: t.Object({
+                offline: t.Integer(),
+                online_free: t.Integer(),
+                online_busy: t.Integer(),
+                total: t.Integer(),
+            }),
+        })) })
 
-            const fullDrivers = drivers.map(mapRowToFullDriver);
-            const total = parseInt(totalResult[0]!.count as string);
+    // Get all drivers with optional status filter
+    .get('/', async ({ query, db }: { query: { status?: FullDriver['status']; page: number; limit: number }; db: Sql }) => {
+        const { status, page, limit } = query;
+        const offset = (page - 1) * limit;
+
+        let drivers;
+        let totalResult;
+
+        if (status) {
+            drivers = await db`
+                SELECT * FROM drivers
+                WHERE status = ${status}
+                ORDER BY application_date DESC
+                LIMIT ${limit} OFFSET ${offset}
+            `;
+            totalResult = await db`
+                SELECT COUNT(*) as count FROM drivers WHERE status = ${status}
+            `;
+        } else {
+            drivers = await db`
+                SELECT * FROM drivers
+                ORDER BY application_date DESC
+                LIMIT ${limit} OFFSET ${offset}
+            `;
+            totalResult = await db`
+                SELECT COUNT(*) as count FROM drivers
+            `;
+        }
 
-            return {
-                drivers: fullDrivers,
-                pagination: {
-                    page,
-                    limit,
-                    total,
-                    totalPages: Math.ceil(total / limit)
-                }
-            };
+        const fullDrivers = drivers.map(mapRowToFullDriver);
+        const total = parseInt(totalResult[0]!.count as string);
 
-        } catch (error) {
-            console.error('Error fetching drivers:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
-        }
+        return {
+            drivers: fullDrivers,
+            pagination: {
+                page,
+                limit,
+                total,
+                totalPages: Math.ceil(total / limit)
+            }
+        };
+    }, {
+        roles: ['admin'],
+        query: t.Object({
+            status: t.Optional(DriverStatusSchema),
+            page: Page,
+            limit: Limit(50),
+        }),
+        detail: responds(t.Object({
+            drivers: t.Array(FullDriverModel),
+            pagination: t.Object({ page: t.Integer(), limit: t.Integer(), total: t.Integer(), totalPages: t.Integer() }),
+        })),
     })
 
     // Approve driver application
     .post('/approve/:id', async ({ params, db }: { params: { id: string }; db: Sql }) => {
-        try {
-            const { id } = params;
-
-            const drivers = await db`
-                SELECT * FROM drivers WHERE id = ${id}
-            `;
-            
-            if (drivers.length === 0) {
-                return {
-                    error: 'Driver not found',
-                    status: 404,
-                };
-            }
-
-            const driver = drivers[0]!;
+        const { id } = params;
+
+        const drivers = await db`
+            SELECT * FROM drivers WHERE id = ${id}
+        `;
+        
+        if (drivers.length === 0) {
+            throw notFound('Driver not found');
+        }
 
-            if (driver.status === 'approved') {
-                return {
-                    error: 'Driver is already approved',
-                    status: 400,
-                };
-            }
+        const driver = drivers[0]!;
 
-            const now = new Date().toISOString();
+        if (driver.status === 'approved') {
+            throw conflict('Driver is already approved');
+        }
 
-            const result = await db`
-                UPDATE drivers 
-                SET status = 'approved', approval_date = ${now}, updated_at = ${now}
-                WHERE id = ${id}
-                RETURNING *
-            `;
+        const now = new Date().toISOString();
 
-            const updatedDriver = mapRowToFullDriver(result[0]!);
-            return {
-                success: true,
-                driver: updatedDriver,
-                message: 'Driver approved successfully'
-            };
+        const result = await db`
+            UPDATE drivers 
+            SET status = 'approved', approval_date = ${now}, updated_at = ${now}
+            WHERE id = ${id}
+            RETURNING *
+        `;
 
-        } catch (error) {
-            console.error('Error approving driver:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
-        }
-    })
+        const updatedDriver = mapRowToFullDriver(result[0]!);
+        return {
+            success: true,
+            driver: updatedDriver,
+            message: 'Driver approved successfully'
+        };
+    }, { roles: ['admin'], params: IdParams, detail: responds(t.Object({ success: t.Boolean(), driver: FullDriverModel, message: t.String() })) })
 
     // Reject driver application
     .post('/reject/:id', async ({ params, body, db }: { 
@@ -963,201 +909,215 @@ export const driverRoutes = new Elysia({ prefix: '/api/drivers' })
         body: { reason?: string }; 
         db: Sql 
     }) => {
-        try {
-            const { id } = params;
-            const { reason } = body || {};
-
-            const drivers = await db`
-                SELECT * FROM drivers WHERE id = ${id}
-            `;
-            
-            if (drivers.length === 0) {
-                return {
-                    error: 'Driver not found',
-                    status: 404,
-                };
-            }
-
-            const now = new Date().toISOString();
-
-            const result = await db`
-                UPDATE drivers 
-                SET 
-                    status = 'rejected',
-                    ${reason ? db`rejection_reason = ${reason},` : db``}
-                    updated_at = ${now}
-                WHERE id = ${id}
-                RETURNING *
-            `;
-
-            const updatedDriver = mapRowToFullDriver(result[0]!);
-            return {
-                success: true,
-                driver: updatedDriver,
-                message: 'Driver application rejected'
-            };
-
-        } catch (error) {
-            console.error('Error rejecting driver:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        const { id } = params;
+        const { reason } = body || {};
+
+        const drivers = await db`
+            SELECT * FROM drivers WHERE id = ${id}
+        `;
+        
+        if (drivers.length === 0) {
+            throw notFound('Driver not found');
         }
+
+        const now = new Date().toISOString();
+
+        const result = await db`
+            UPDATE drivers 
+            SET 
+                status = 'rejected',
+                ${reason ? db`rejection_reason = ${reason},` : db``}
+                updated_at = ${now}
+            WHERE id = ${id}
+            RETURNING *
+        `;
+
+        const updatedDriver = mapRowToFullDriver(result[0]!);
+        return {
+            success: true,
+            driver: updatedDriver,
+            message: 'Driver application rejected'
+        };
+    }, {
+        roles: ['admin'],
+        params: IdParams,
+        body: t.Optional(t.Object({ reason: t.Optional(t.String()) })),
+        detail: responds(t.Object({ success: t.Boolean(), driver: FullDriverModel, message: t.String() })),
     })
 
     // Delete driver
     .delete('/:id', async ({ params, db }: { params: { id: string }; db: Sql }) => {
-        try {
-            const { id } = params;
+        const { id } = params;
 
-            // Delete driver location first (foreign key)
-            await db`DELETE FROM driver_locations WHERE driver_id = ${id}`;
+        // Foreign keys remove the driver's location and detach their rides and user account
+        const result = await db.begin(async (tx) => {
+            await tx`
+                UPDATE users SET is_driver = false, updated_at = ${new Date().toISOString()}
+                WHERE driver_id = ${id}
+            `;
 
-            // Delete driver
-            const result = await db`
+            return tx`
                 DELETE FROM drivers WHERE id = ${id} RETURNING id
             `;
+        });
 
-            if (result.length === 0) {
-                return {
-                    error: 'Driver not found',
-                    status: 404,
-                };
-            }
-
-            return {
-                success: true,
-                message: 'Driver deleted successfully'
-            };
-
-        } catch (error) {
-            console.error('Error deleting driver:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        if (result.length === 0) {
+            throw notFound('Driver not found');
         }
-    })
+
+        return {
+            success: true,
+            message: 'Driver deleted successfully'
+        };
+    }, { roles: ['admin'], params: IdParams, detail: responds(MessageModel) })
 
     // Update driver matching preferences
-    .put('/:id/preferences', async ({ params, body, db }: {
+    .put('/:id/preferences', async ({ params, body, db, caller }: {
         params: { id: string };
         body: {
-            pricePerKm?: number;
-            minPricePerRide?: number;
+            pricePerKm?: Money;
+            minPricePerRide?: Money;
             maxPickupRadiusKm?: number;
             vehicleType?: number;
             maxPassengers?: number;
         };
         db: Sql;
+        caller: Caller;
     }) => {
-        try {
-            const { id } = params;
-            const { pricePerKm, minPricePerRide, maxPickupRadiusKm, vehicleType, maxPassengers } = body;
-
-            // Get existing driver
-            const drivers = await db`
-                SELECT * FROM drivers WHERE id = ${id}
-            `;
-
-            if (drivers.length === 0) {
-                return {
-                    error: 'Driver not found',
-                    status: 404,
-                };
-            }
+        const { id } = params;
 
-            // Validate preferences
-            if (pricePerKm !== undefined && pricePerKm < 0) {
-                return { error: 'Price per km must be non-negative', status: 400 };
-            }
-            if (minPricePerRide !== undefined && minPricePerRide < 0) {
-                return { error: 'Min price per ride must be non-negative', status: 400 };
-            }
-            if (maxPickupRadiusKm !== undefined && (maxPickupRadiusKm < 1 || maxPickupRadiusKm > 100)) {
-                return { error: 'Max pickup radius must be between 1 and 100 km', status: 400 };
-            }
-            if (vehicleType !== undefined && (vehicleType < 1 || vehicleType > 5)) {
-                return { error: 'Vehicle type must be between 1 and 5', status: 400 };
-            }
-            if (maxPassengers !== undefined && (maxPassengers < 1 || maxPassengers > 8)) {
-                return { error: 'Max passengers must be between 1 and 8', status: 400 };
-            }
+        if (!canActForDriver(caller, id)) {
+            throw forbidden('You can only update your own preferences');
+        }
 
-            const now = new Date().toISOString();
+        const { pricePerKm, minPricePerRide, maxPickupRadiusKm, vehicleType, maxPassengers } = body;
 
-            const result = await db`
-                UPDATE drivers SET
-                    price_per_km = COALESCE(${pricePerKm ?? null}, price_per_km),
-                    min_price_per_ride = COALESCE(${minPricePerRide ?? null}, min_price_per_ride),
-                    max_pickup_radius_km = COALESCE(${maxPickupRadiusKm ?? null}, max_pickup_radius_km),
-                    vehicle_type = COALESCE(${vehicleType ?? null}, vehicle_type),
-                    max_passengers = COALESCE(${maxPassengers ?? null}, max_passengers),
-                    updated_at = ${now}
-                WHERE id = ${id}
-                RETURNING *
-            `;
+        // Get existing driver
+        const drivers = await db`
+            SELECT * FROM drivers WHERE id = ${id}
+        `;
 
-            const updatedDriver = mapRowToFullDriver(result[0]!);
-            return {
-                success: true,
-                driver: updatedDriver,
-                preferences: {
-                    pricePerKm: updatedDriver.pricePerKm,
-                    minPricePerRide: updatedDriver.minPricePerRide,
-                    maxPickupRadiusKm: updatedDriver.maxPickupRadiusKm,
-                    vehicleType: updatedDriver.vehicleType,
-                    maxPassengers: updatedDriver.maxPassengers,
-                }
-            };
+        if (drivers.length === 0) {
+            throw notFound('Driver not found');
+        }
 
-        } catch (error) {
-            console.error('Error updating driver preferences:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        // Both prices share one currency, so switching currency means setting both
+        const currencies = new Set([pricePerKm?.currency, minPricePerRide?.currency].filter(Boolean) as string[]);
+        const [currency] = currencies;
+        if (currencies.size > 1) {
+            throw badRequest('pricePerKm and minPricePerRide must use the same currency');
+        }
+        if (currency && !isSupportedCurrency(currency)) {
+            throw badRequest(`Unknown currency ${currency}`);
         }
+        if (currency && currency !== drivers[0]!.price_currency && !(pricePerKm && minPricePerRide)) {
+            throw badRequest('Set pricePerKm and minPricePerRide together when changing currency');
+        }
+
+        const now = new Date().toISOString();
+
+        const result = await db`
+            UPDATE drivers SET
+                price_per_km_amount = COALESCE(${pricePerKm?.amount ?? null}, price_per_km_amount),
+                min_price_per_ride_amount = COALESCE(${minPricePerRide?.amount ?? null}, min_price_per_ride_amount),
+                price_currency = COALESCE(${currency ?? null}, price_currency),
+                max_pickup_radius_km = COALESCE(${maxPickupRadiusKm ?? null}, max_pickup_radius_km),
+                vehicle_type = COALESCE(${vehicleType ?? null}, vehicle_type),
+                max_passengers = COALESCE(${maxPassengers ?? null}, max_passengers),
+                updated_at = ${now}
+            WHERE id = ${id}
+            RETURNING *
+        `;
+
+        const updatedDriver = mapRowToFullDriver(result[0]!);
+        return {
+            success: true,
+            driver: updatedDriver,
+            preferences: {
+                pricePerKm: updatedDriver.pricePerKm,
+                minPricePerRide: updatedDriver.minPricePerRide,
+                maxPickupRadiusKm: updatedDriver.maxPickupRadiusKm,
+                vehicleType: updatedDriver.vehicleType,
+                maxPassengers: updatedDriver.maxPassengers,
+            }
+        };
+    }, {
+        roles: ['driver', 'admin'],
+        params: IdParams,
+        body: t.Object({
+            pricePerKm: t.Optional(MoneySchema),
+            minPricePerRide: t.Optional(MoneySchema),
+            maxPickupRadiusKm: t.Optional(t.Number({ minimum: 1, maximum: MAX_PICKUP_RADIUS_KM })),
+            vehicleType: t.Optional(t.Integer({ minimum: 1, maximum: 5 })),
+            maxPassengers: t.Optional(t.Integer({ minimum: 1, maximum: 8 })),
+        }),
+        detail: responds(t.Object({ success: t.Boolean(), driver: FullDriverModel, preferences: DriverMatchingPreferencesModel })),
     })
 
     // Get driver matching preferences
-    .get('/:id/preferences', async ({ params, db }: {
+    .get('/:id/preferences', async ({ params, db, caller }: {
         params: { id: string };
         db: Sql;
+        caller: Caller;
     }) => {
-        try {
-            const { id } = params;
+        const { id } = params;
 
-            const drivers = await db`
-                SELECT price_per_km, min_price_per_ride, max_pickup_radius_km,
-                       vehicle_type, max_passengers
-                FROM drivers WHERE id = ${id}
-            `;
+        if (!canActForDriver(caller, id)) {
+            throw forbidden('You can only view your own preferences');
+        }
 
-            if (drivers.length === 0) {
-                return {
-                    error: 'Driver not found',
-                    status: 404,
-                };
-            }
+        const drivers = await db`
+            SELECT price_per_km_amount, min_price_per_ride_amount, price_currency,
+                   max_pickup_radius_km, vehicle_type, max_passengers
+            FROM drivers WHERE id = ${id}
+        `;
 
-            const row = drivers[0]!;
-            return {
-                preferences: {
-                    pricePerKm: row.price_per_km ?? 1.5,
-                    minPricePerRide: row.min_price_per_ride ?? 5.0,
-                    maxPickupRadiusKm: row.max_pickup_radius_km ?? 10.0,
-                    vehicleType: row.vehicle_type ?? 1,
-                    maxPassengers: row.max_passengers ?? 4,
-                }
-            };
+        if (drivers.length === 0) {
+            throw notFound('Driver not found');
+        }
 
-        } catch (error) {
-            console.error('Error fetching driver preferences:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        return {
+            preferences: mapRowToMatchingPreferences(drivers[0]!)
+        };
+    }, { roles: ['driver', 'admin'], params: IdParams, detail: responds(t.Object({ preferences: DriverMatchingPreferencesModel })) })
+
+    // Auto-dispatch offers made to the driver and how many they accepted (see dispatch.ts)
+    .get('/:id/dispatch-stats', async ({ params, db, caller }: {
+        params: { id: string };
+        db: Sql;
+        caller: Caller;
+    }) => {
+        const { id } = params;
+
+        if (!canActForDriver(caller, id)) {
+            throw forbidden('You can only view your own dispatch stats');
         }
+
+        const drivers = await db`
+            SELECT id FROM drivers WHERE id = ${id}
+        `;
+
+        if (drivers.length === 0) {
+            throw notFound('Driver not found');
+        }
+
+        return {
+            stats: await getDriverDispatchStats(db, id)
+        };
+    }, { roles: ['driver', 'admin'], params: IdParams, detail: responds(t.Object({ stats: DriverDispatchStatsModel })) })
+
+    // Quarantined location updates and the driver's anomaly score (see locationAnomalies.ts)
+    .get('/:id/location-anomalies', async ({ params, query, db }: {
+        params: { id: string };
+        query: { limit: number };
+        db: Sql;
+    }) => {
+        return {
+            locationAnomalies: await getDriverLocationAnomalies(db, params.id, query.limit)
+        };
+    }, {
+        roles: ['admin'],
+        params: IdParams,
+        query: t.Object({ limit: Limit(50) }),
+        detail: responds(t.Object({ locationAnomalies: DriverLocationAnomaliesModel })),
     });
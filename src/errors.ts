@@ -0,0 +1,137 @@
+import { Elysia } from 'elysia';
+import { randomUUID } from 'node:crypto';
+
+export type ApiErrorCode =
+    | 'BAD_REQUEST'
+    | 'VALIDATION_FAILED'
+    | 'UNAUTHORIZED'
+    | 'FORBIDDEN'
+    | 'NOT_FOUND'
+    | 'CONFLICT'
+    | 'INTERNAL_ERROR';
+
+// Error envelope returned by every route:
+//   { error: { code, message, details?, requestId } }
+export interface ApiErrorBody {
+    error: {
+        code: ApiErrorCode;
+        message: string;
+        details?: unknown;
+        requestId: string;
+    };
+}
+
+// Thrown from handlers, translated to an HTTP response by errorHandler
+export class ApiError extends Error {
+    constructor(
+        public readonly status: number,
+        public readonly code: ApiErrorCode,
+        message: string,
+        public readonly details?: unknown
+    ) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+export const badRequest = (message: string, details?: unknown) => new ApiError(400, 'BAD_REQUEST', message, details);
+export const unauthorized = (message = 'Authentication required') => new ApiError(401, 'UNAUTHORIZED', message);
+export const forbidden = (message = 'You do not have permission to perform this action') => new ApiError(403, 'FORBIDDEN', message);
+export const notFound = (message: string) => new ApiError(404, 'NOT_FOUND', message);
+export const conflict = (message: string, details?: unknown) => new ApiError(409, 'CONFLICT', message, details);
+
+export interface FieldError {
+    field: string;
+    message: string;
+}
+
+// Flatten an Elysia validation error into per-field messages
+// Coerced values (numbers in query strings, ...) fail inside a decode transform,
+// which wraps the validation error and keeps the failing property's path itself
+function toFieldErrors(error: any): FieldError[] {
+    const field = (path: string | undefined) => (path ?? '').replace(/^\//, '').replace(/\//g, '.');
+
+    if (typeof error?.path === 'string' && error.error) {
+        let message = 'Invalid value';
+        try {
+            message = JSON.parse(error.message).summary ?? message;
+        } catch {}
+        return [{ field: field(error.path), message }];
+    }
+
+    try {
+        return (error?.all ?? []).map((issue: any) => {
+            // Enums are unions of literals, list the accepted values rather than their types
+            const allowed = issue.schema?.anyOf?.map((option: any) => option.const);
+            return {
+                field: field(issue.path),
+                message: allowed?.length && allowed.every((value: unknown) => value !== undefined)
+                    ? `Expected one of: ${allowed.join(', ')}`
+                    : issue.summary ?? issue.message,
+            };
+        });
+    } catch {
+        return [];
+    }
+}
+
+// Map anything thrown to the ApiError it is reported as (also used for /ws errors)
+export function toApiError(code: string | number, error: unknown): ApiError {
+    if (error instanceof ApiError) return error;
+
+    switch (code) {
+        case 'NOT_FOUND':
+            return notFound('Route not found');
+        case 'PARSE':
+            return badRequest('Malformed request body');
+        case 'VALIDATION':
+            return new ApiError(400, 'VALIDATION_FAILED', 'Request validation failed', {
+                ...(typeof (error as any)?.type === 'string' ? { location: (error as any).type } : {}),
+                fields: toFieldErrors(error),
+            });
+    }
+
+    // Unique constraint races that slipped past the explicit checks
+    if ((error as any)?.code === '23505') {
+        return conflict('Resource already exists', { constraint: (error as any).constraint_name });
+    }
+
+    // Foreign key violations: the request points at a user, driver or ride that doesn't exist
+    if ((error as any)?.code === '23503') {
+        return conflict('Referenced resource does not exist', { constraint: (error as any).constraint_name });
+    }
+
+    return new ApiError(500, 'INTERNAL_ERROR', 'Internal server error');
+}
+
+// Tags every request with an id (honouring X-Request-Id) and renders thrown errors
+export const errorHandler = new Elysia({ name: 'error-handler' })
+    .derive({ as: 'global' }, ({ headers, set }) => {
+        const requestId = headers['x-request-id'] || randomUUID();
+        set.headers['x-request-id'] = requestId;
+        return { requestId };
+    })
+    .onError({ as: 'global' }, ({ code, error, set, request, ...context }) => {
+        const requestId = (context as { requestId?: string }).requestId
+            || request.headers.get('x-request-id')
+            || randomUUID();
+        const apiError = toApiError(code, error);
+
+        if (apiError.status >= 500) {
+            console.error(`❗ [${requestId}] ${request.method} ${new URL(request.url).pathname}:`, error);
+        }
+
+        set.status = apiError.status;
+        set.headers['x-request-id'] = requestId;
+
+        const body: ApiErrorBody = {
+            error: {
+                code: apiError.code,
+                message: apiError.message,
+                ...(apiError.details !== undefined ? { details: apiError.details } : {}),
+                requestId,
+            },
+        };
+
+        return body;
+    });
@@ -0,0 +1,142 @@
+import { afterAll, beforeAll, describe, expect, setDefaultTimeout, test } from 'bun:test';
+import postgres from 'postgres';
+import type { Subprocess } from 'bun';
+import { v4 as uuidv4 } from 'uuid';
+
+// Two app instances on one database: a socket subscribed on one instance hears what the
+// other publishes, also after the LISTEN connections were dropped
+// Needs a Postgres database the instances may migrate:
+//   TEST_DATABASE_URL="postgres://localhost:5432/pullup_test?sslmode=disable" bun test
+
+const DATABASE_URL = Bun.env.TEST_DATABASE_URL;
+const AUTH_SECRET = 'event-bus-test-secret';
+const PORTS = [3911, 3912] as const;
+
+// Hooks included, starting the instances takes a while
+setDefaultTimeout(90_000);
+
+interface Instance {
+    process: Subprocess;
+    url: string;
+}
+
+async function waitFor<T>(check: () => Promise<T | undefined>, timeoutMs: number, what: string): Promise<T> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+        const value = await check().catch(() => undefined);
+        if (value !== undefined) return value;
+        await Bun.sleep(200);
+    }
+    throw new Error(`Timed out waiting for ${what}`);
+}
+
+async function startInstance(port: number): Promise<Instance> {
+    const process = Bun.spawn(['bun', 'src/index.ts'], {
+        env: { ...Bun.env, PORT: String(port), DATABASE_URL, AUTH_SECRET, AUTO_MIGRATE: 'true' },
+        stdout: 'ignore',
+        stderr: 'inherit',
+    });
+
+    const url = `http://localhost:${port}`;
+    await waitFor(async () => (await fetch(`${url}/health`)).ok || undefined, 30_000, `instance on port ${port}`);
+    return { process, url };
+}
+
+// Collects every message the socket receives
+async function openSocket(url: string, token: string) {
+    const socket = new WebSocket(`${url.replace('http', 'ws')}/ws?token=${token}`);
+    const messages: any[] = [];
+    socket.addEventListener('message', (event) => messages.push(JSON.parse(String(event.data))));
+
+    await new Promise((resolve, reject) => {
+        socket.addEventListener('open', resolve, { once: true });
+        socket.addEventListener('error', reject, { once: true });
+    });
+    return { socket, messages };
+}
+
+describe.skipIf(!DATABASE_URL)('event bus across instances', () => {
+    const driverId = uuidv4();
+    let sql: postgres.Sql;
+    let token: string;
+    const instances: Instance[] = [];
+    let subscriber: Awaited<ReturnType<typeof openSocket>>;
+
+    // A location update on instance B, published to driver:<driverId>
+    async function updateLocation(latitude: number) {
+        const response = await fetch(`${instances[1]!.url}/api/drivers/${driverId}/location`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+            body: JSON.stringify({ latitude, longitude: -74.006 }),
+        });
+        expect(response.status).toBe(200);
+    }
+
+    function received(latitude: number) {
+        return subscriber.messages.find((message) => message.type === 'driverLocation' && message.location.latitude === latitude);
+    }
+
+    beforeAll(async () => {
+        // Tokens must verify on the instances, which share this secret
+        Bun.env.AUTH_SECRET = AUTH_SECRET;
+        const { signSessionToken } = await import('./auth');
+        token = signSessionToken(driverId, 'driver');
+
+        // One at a time, so only the first one migrates
+        instances.push(await startInstance(PORTS[0]));
+        instances.push(await startInstance(PORTS[1]));
+
+        sql = postgres(DATABASE_URL!, { max: 1, onnotice: () => {} });
+        const now = new Date().toISOString();
+        await sql`
+            INSERT INTO drivers (
+                id, full_name, email, phone_number, address, license_number, vehicle_model, vehicle_year,
+                vehicle_plate, status, availability, last_heartbeat_at, application_date, created_at, updated_at
+            ) VALUES (
+                ${driverId}, 'Event Bus', ${`${driverId}@example.com`}, '555-0100', '1 Test St', ${driverId},
+                'Test Car', '2020', ${driverId}, 'approved', 'online_free', ${now}, ${now}, ${now}, ${now}
+            )
+        `;
+
+        subscriber = await openSocket(instances[0]!.url, token);
+        subscriber.socket.send(JSON.stringify({ type: 'subscribe', id: 'sub', channel: `driver:${driverId}` }));
+        await waitFor(async () => subscriber.messages.find((message) => message.id === 'sub'), 5_000, 'subscribe ack');
+    });
+
+    afterAll(async () => {
+        subscriber?.socket.close();
+        for (const instance of instances) {
+            instance.process.kill();
+            await instance.process.exited;
+        }
+        if (sql) {
+            await sql`DELETE FROM drivers WHERE id = ${driverId}`;
+            await sql.end();
+        }
+    });
+
+    test('delivers an event published on another instance', async () => {
+        await updateLocation(40.7128);
+
+        const message = await waitFor(async () => received(40.7128), 5_000, 'relayed driverLocation');
+        expect(message.channel).toBe(`driver:${driverId}`);
+        expect(message.location.driverId).toBe(driverId);
+    });
+
+    test('re-listens after the LISTEN connections drop', async () => {
+        const dropped = await sql`
+            SELECT pg_terminate_backend(pid) FROM pg_stat_activity
+            WHERE datname = current_database() AND query ILIKE 'listen%'
+        `;
+        expect(dropped.length).toBeGreaterThanOrEqual(2);
+
+        // Keep publishing until instance A listens again, each update a metre further north
+        let latitude = 40.7128;
+        await waitFor(async () => {
+            latitude = Math.round((latitude + 0.00001) * 1e5) / 1e5;
+            await updateLocation(latitude);
+            await Bun.sleep(300);
+            return received(latitude);
+        }, 45_000, 'driverLocation after reconnecting');
+    });
+});
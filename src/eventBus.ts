@@ -0,0 +1,141 @@
+import { randomUUID } from 'node:crypto';
+import type { Sql } from 'postgres';
+import type { ChannelMessage, DispatchOffer, RideOfferWithdrawnReason } from './realtime';
+import type { MatchingRide } from './matching';
+import type { Ride } from './types';
+
+// Relays real-time events between app instances over Postgres LISTEN/NOTIFY
+// Each instance handles an event for its own sockets first, then emits it here so
+// the other instances do the same; an instance ignores the notifications it sent
+
+export interface BusEvents {
+    channelMessage: { channel: string; message: ChannelMessage };
+    rideCreated: { ride: Ride };
+    rideDispatched: { driverId: string; ride: MatchingRide; dispatch: DispatchOffer };
+    rideOfferWithdrawn: { rideId: string; reason: RideOfferWithdrawnReason; exceptDriverId?: string; onlyDriverId?: string };
+    driverAvailable: { driverId: string };
+}
+
+type BusTopic = keyof BusEvents;
+
+interface Envelope {
+    origin: string;
+    topic: BusTopic | 'heartbeat';
+    payload: unknown;
+}
+
+const BUS_CHANNEL = 'pullup_events';
+
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+const MAX_PAYLOAD_BYTES = 7900;
+
+// Every instance notifies itself this often, and re-listens when it stops hearing itself
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+const instanceId = randomUUID();
+const handlers = new Map<BusTopic, ((payload: any) => unknown)[]>();
+const reconnectHandlers: (() => unknown)[] = [];
+
+let client: Sql | null = null;
+let listener: { unlisten(): Promise<void> } | null = null;
+let listenedBefore = false;
+let lastHeartbeat = 0;
+let checking = false;
+
+export function onBusEvent<K extends BusTopic>(topic: K, handler: (payload: BusEvents[K]) => unknown) {
+    handlers.set(topic, [...(handlers.get(topic) ?? []), handler]);
+}
+
+// Called after the listener comes back from a lost connection; events emitted meanwhile were missed
+export function onBusReconnect(handler: () => unknown) {
+    reconnectHandlers.push(handler);
+}
+
+// Send an event to the other instances (no-op until startEventBus, e.g. in CLI scripts)
+export function emitBusEvent<K extends BusTopic>(topic: K, payload: BusEvents[K]) {
+    notify(topic, payload);
+}
+
+function notify(topic: Envelope['topic'], payload: unknown) {
+    if (!client) return;
+
+    const envelope: Envelope = { origin: instanceId, topic, payload };
+    const text = JSON.stringify(envelope);
+    if (Buffer.byteLength(text) > MAX_PAYLOAD_BYTES) {
+        console.warn(`⚠️ Event bus: ${topic} event too large to relay to other instances`);
+        return;
+    }
+
+    client.notify(BUS_CHANNEL, text).catch((error) => {
+        console.error(`❗ Event bus: failed to relay ${topic} event:`, error.message);
+    });
+}
+
+async function runHandlers(fns: ((payload?: any) => unknown)[], payload?: unknown) {
+    for (const fn of fns) {
+        try {
+            await fn(payload);
+        } catch (error) {
+            console.error('❗ Event bus handler failed:', error);
+        }
+    }
+}
+
+function receive(text: string) {
+    let envelope: Envelope;
+    try {
+        envelope = JSON.parse(text);
+    } catch {
+        return;
+    }
+
+    if (envelope.origin === instanceId) {
+        if (envelope.topic === 'heartbeat') lastHeartbeat = Date.now();
+        return;
+    }
+    if (envelope.topic === 'heartbeat') return;
+
+    void runHandlers(handlers.get(envelope.topic) ?? [], envelope.payload);
+}
+
+async function listen(sql: Sql) {
+    listener = await sql.listen(BUS_CHANNEL, receive, () => {
+        // Also called when postgres.js re-listens by itself after the connection dropped
+        lastHeartbeat = Date.now();
+        if (listenedBefore) {
+            console.log('🔁 Event bus reconnected');
+            void runHandlers(reconnectHandlers);
+        }
+        listenedBefore = true;
+    });
+}
+
+// postgres.js re-listens once after a dropped connection and gives up silently if the
+// database is still unreachable, so a listener that stops hearing itself is recreated
+async function checkListener(sql: Sql) {
+    if (checking) return;
+    checking = true;
+
+    try {
+        if (Date.now() - lastHeartbeat > HEARTBEAT_INTERVAL_MS * 2) {
+            console.warn('⚠️ Event bus: listener stopped receiving, reconnecting');
+            await listener?.unlisten().catch(() => {});
+            listener = null;
+            await listen(sql);
+        }
+    } catch (error) {
+        console.error('❗ Event bus: reconnect failed, retrying:', (error as Error).message);
+    } finally {
+        checking = false;
+    }
+
+    notify('heartbeat', null);
+}
+
+export async function startEventBus(sql: Sql) {
+    client = sql;
+    await listen(sql);
+    setInterval(() => void checkListener(sql), HEARTBEAT_INTERVAL_MS).unref();
+    notify('heartbeat', null);
+    console.log(`📡 Event bus listening on '${BUS_CHANNEL}' (instance ${instanceId})`);
+}
@@ -0,0 +1,12 @@
+import { app } from './app';
+
+// Write the OpenAPI spec to disk, e.g. to generate the mobile client:
+//   bun run docs:export [output file]
+const outFile = Bun.argv[2] || 'openapi.json';
+
+const response = await app.handle(new Request('http://localhost/docs/json'));
+const spec = await response.json();
+
+await Bun.write(outFile, JSON.stringify(spec, null, 2) + '\n');
+console.log(`✅ Wrote OpenAPI spec to ${outFile}`);
+process.exit(0);
@@ -0,0 +1,165 @@
+import { randomUUID } from 'node:crypto';
+import type { Coordinates, Money } from './types';
+import type { Route } from './routing';
+import { signToken, verifyToken } from './auth';
+import { badRequest } from './errors';
+import { DEFAULT_CURRENCY, fromMajorUnits } from './money';
+
+// Server-side fares: riders get a signed quote from POST /api/rides/quote and
+// create the ride with its id, so the price is never taken from the client
+//
+// fare = max(minimumFare, baseFare + perKm * distanceKm + perMinute * durationMinutes) * surgeMultiplier
+// Distance and duration are the road route's (see routing.ts), the surge multiplier is the pickup zone's (see surge.ts)
+// Rates are configured in major units of CURRENCY, quotes are in its minor units
+
+export interface FareRates {
+    baseFare: number;
+    perKm: number;
+    perMinute: number;
+    minimumFare: number;
+}
+
+// Per required vehicle type (1-5, higher is a larger or better vehicle)
+const DEFAULT_FARE_RATES: Record<number, FareRates> = {
+    1: { baseFare: 2.5, perKm: 1.2, perMinute: 0.25, minimumFare: 5 },
+    2: { baseFare: 3, perKm: 1.5, perMinute: 0.3, minimumFare: 6.5 },
+    3: { baseFare: 4, perKm: 2, perMinute: 0.4, minimumFare: 9 },
+    4: { baseFare: 6, perKm: 2.8, perMinute: 0.55, minimumFare: 14 },
+    5: { baseFare: 8, perKm: 3.6, perMinute: 0.7, minimumFare: 20 },
+};
+
+// FARE_RATES overrides some or all vehicle types, e.g. {"1": {"baseFare": 3, "perKm": 1.4, "perMinute": 0.3, "minimumFare": 6}}
+function loadFareRates(): Record<number, FareRates> {
+    if (!Bun.env.FARE_RATES) return DEFAULT_FARE_RATES;
+
+    const overrides = JSON.parse(Bun.env.FARE_RATES) as Record<string, FareRates>;
+    const rates = { ...DEFAULT_FARE_RATES };
+    for (const [vehicleType, override] of Object.entries(overrides)) {
+        const fields = ['baseFare', 'perKm', 'perMinute', 'minimumFare'] as const;
+        if (!fields.every((field) => typeof override[field] === 'number' && override[field] >= 0)) {
+            throw new Error(`FARE_RATES for vehicle type ${vehicleType} needs non-negative ${fields.join(', ')}`);
+        }
+        rates[Number(vehicleType)] = override;
+    }
+    return rates;
+}
+
+export const FARE_RATES = loadFareRates();
+
+const QUOTE_TTL_SECONDS = parseInt(Bun.env.QUOTE_TTL_SECONDS || '300'); // 5 minutes
+
+export interface FareQuoteRequest {
+    originCoordinates: Coordinates;
+    destinationCoordinates: Coordinates;
+    passengerCount?: number;
+    requiredVehicleType?: number;
+}
+
+export interface FareBreakdown {
+    baseFare: Money;
+    distanceFare: Money;
+    timeFare: Money;
+    minimumFare: Money;
+    surgeMultiplier: number;
+}
+
+export interface FareQuote {
+    quoteId: string; // Signed token, pass it to POST /api/rides/create
+    fare: Money;
+    distanceKm: number;
+    durationMinutes: number;
+    passengerCount: number;
+    requiredVehicleType: number;
+    originCoordinates: Coordinates;
+    destinationCoordinates: Coordinates;
+    surgeZone: string;
+    breakdown: FareBreakdown;
+    polyline: string; // Route geometry, encoded polyline
+    expiresAt: string;
+}
+
+// Claims carried by the quote id; `jti` is stored on the ride so a quote is only used once
+interface FareQuoteClaims extends Omit<FareQuote, 'quoteId' | 'expiresAt' | 'breakdown' | 'polyline'> {
+    typ: 'fare_quote';
+    surgeMultiplier: number;
+    jti: string;
+    iat: number;
+    exp: number;
+}
+
+export function quoteFare(request: FareQuoteRequest, route: Route, surge: { zone: string; multiplier: number }): FareQuote {
+    const { originCoordinates, destinationCoordinates, passengerCount = 1, requiredVehicleType = 1 } = request;
+
+    const rates = FARE_RATES[requiredVehicleType];
+    if (!rates) {
+        throw badRequest(`No fares are configured for vehicle type ${requiredVehicleType}`);
+    }
+
+    const { distanceKm } = route;
+    const durationMinutes = Math.ceil(route.durationSeconds / 60);
+
+    const breakdown: FareBreakdown = {
+        baseFare: fromMajorUnits(rates.baseFare),
+        distanceFare: fromMajorUnits(rates.perKm * distanceKm),
+        timeFare: fromMajorUnits(rates.perMinute * durationMinutes),
+        minimumFare: fromMajorUnits(rates.minimumFare),
+        surgeMultiplier: surge.multiplier,
+    };
+    const subtotal = Math.max(
+        breakdown.minimumFare.amount,
+        breakdown.baseFare.amount + breakdown.distanceFare.amount + breakdown.timeFare.amount
+    );
+    const fare: Money = { amount: Math.round(subtotal * surge.multiplier), currency: DEFAULT_CURRENCY };
+
+    const now = Math.floor(Date.now() / 1000);
+    const claims: FareQuoteClaims = {
+        typ: 'fare_quote',
+        jti: randomUUID(),
+        fare,
+        distanceKm,
+        durationMinutes,
+        passengerCount,
+        requiredVehicleType,
+        originCoordinates,
+        destinationCoordinates,
+        surgeZone: surge.zone,
+        surgeMultiplier: surge.multiplier,
+        iat: now,
+        exp: now + QUOTE_TTL_SECONDS,
+    };
+
+    return {
+        quoteId: signToken(claims),
+        fare,
+        distanceKm,
+        durationMinutes,
+        passengerCount,
+        requiredVehicleType,
+        originCoordinates,
+        destinationCoordinates,
+        surgeZone: surge.zone,
+        breakdown,
+        polyline: route.polyline,
+        expiresAt: new Date(claims.exp * 1000).toISOString(),
+    };
+}
+
+// The quote behind a quote id, or a 400 if it was tampered with or has expired
+export function verifyFareQuote(quoteId: string): FareQuoteClaims {
+    const claims = verifyToken(quoteId);
+    if (!claims || claims.typ !== 'fare_quote') {
+        throw badRequest('Quote is invalid or has expired, request a new one');
+    }
+    return claims as FareQuoteClaims;
+}
+
+function sameCoordinates(a: Coordinates, b: Coordinates): boolean {
+    return Math.abs(a.latitude - b.latitude) < 1e-6 && Math.abs(a.longitude - b.longitude) < 1e-6;
+}
+
+// Rides must be created for the trip that was quoted
+export function assertQuoteMatchesTrip(quote: FareQuoteClaims, origin: Coordinates, destination: Coordinates) {
+    if (!sameCoordinates(quote.originCoordinates, origin) || !sameCoordinates(quote.destinationCoordinates, destination)) {
+        throw badRequest('Ride coordinates differ from the quoted trip, request a new quote');
+    }
+}
@@ -0,0 +1,108 @@
+import type { Coordinates } from './types';
+
+// Average urban driving speed used for rough ETA estimates
+export const AVERAGE_CITY_SPEED_KMH = 30;
+
+// Haversine formula to calculate distance between two coordinates in km
+export function calculateDistanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    const R = 6371; // Earth's radius in km
+    const dLat = (lat2 - lat1) * Math.PI / 180;
+    const dLng = (lng2 - lng1) * Math.PI / 180;
+    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+              Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+              Math.sin(dLng / 2) * Math.sin(dLng / 2);
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    return R * c;
+}
+
+// Straight-line travel time estimate in seconds
+export function estimateTravelSeconds(distanceKm: number, speedKmh: number = AVERAGE_CITY_SPEED_KMH): number {
+    return Math.round((distanceKm / speedKmh) * 3600);
+}
+
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+// Geohash cell containing a point; precision 5 is roughly 5km x 5km, 6 is 1.2km x 0.6km
+export function encodeGeohash(latitude: number, longitude: number, precision: number): string {
+    const latRange = [-90, 90];
+    const lngRange = [-180, 180];
+    let hash = '';
+    let bits = 0;
+    let value = 0;
+    let evenBit = true;
+
+    while (hash.length < precision) {
+        const range = evenBit ? lngRange : latRange;
+        const coordinate = evenBit ? longitude : latitude;
+        const mid = (range[0]! + range[1]!) / 2;
+
+        value <<= 1;
+        if (coordinate >= mid) {
+            value |= 1;
+            range[0] = mid;
+        } else {
+            range[1] = mid;
+        }
+
+        evenBit = !evenBit;
+        if (++bits === 5) {
+            hash += GEOHASH_ALPHABET[value];
+            bits = 0;
+            value = 0;
+        }
+    }
+
+    return hash;
+}
+
+// Bounding box of a geohash cell
+export function decodeGeohashBounds(hash: string): { south: number; west: number; north: number; east: number } {
+    const latRange = [-90, 90];
+    const lngRange = [-180, 180];
+    let evenBit = true;
+
+    for (const char of hash) {
+        const value = GEOHASH_ALPHABET.indexOf(char);
+        if (value < 0) throw new Error(`Invalid geohash '${hash}'`);
+
+        for (let bit = 4; bit >= 0; bit--) {
+            const range = evenBit ? lngRange : latRange;
+            const mid = (range[0]! + range[1]!) / 2;
+            if ((value >> bit) & 1) {
+                range[0] = mid;
+            } else {
+                range[1] = mid;
+            }
+            evenBit = !evenBit;
+        }
+    }
+
+    return { south: latRange[0]!, west: lngRange[0]!, north: latRange[1]!, east: lngRange[1]! };
+}
+
+// Encoded polyline (Google's format, 5 decimal places), the geometry format OSRM returns
+export function encodePolyline(points: Coordinates[]): string {
+    let encoded = '';
+    let previousLat = 0;
+    let previousLng = 0;
+
+    const encodeValue = (value: number) => {
+        let shifted = value < 0 ? ~(value << 1) : value << 1;
+        while (shifted >= 0x20) {
+            encoded += String.fromCharCode((0x20 | (shifted & 0x1f)) + 63);
+            shifted >>= 5;
+        }
+        encoded += String.fromCharCode(shifted + 63);
+    };
+
+    for (const point of points) {
+        const lat = Math.round(point.latitude * 1e5);
+        const lng = Math.round(point.longitude * 1e5);
+        encodeValue(lat - previousLat);
+        encodeValue(lng - previousLng);
+        previousLat = lat;
+        previousLng = lng;
+    }
+
+    return encoded;
+}
@@ -0,0 +1,128 @@
+import type { Fragment, Row } from 'postgres';
+import type { DbClient } from './db';
+import type { Coordinates } from './types';
+
+// Nearby drivers and pending rides, as the crow flies
+//
+// With PostGIS (see migration 0011) these are ST_DWithin filters ordered by KNN distance (<->)
+// on GiST-indexed geography columns. Without it a latitude/longitude bounding box narrows the
+// rows down on a btree index before the Haversine formula checks the radius
+// Both return the rows nearest first, with the distance in straight_line_km
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+let postgis: Promise<boolean> | null = null;
+
+async function detectPostgis(db: DbClient): Promise<boolean> {
+    const rows = await db`
+        SELECT EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'drivers' AND column_name = 'location'
+        ) AS available
+    `;
+
+    const available = rows[0]!.available as boolean;
+    console.log(`📍 Nearby lookups use ${available ? 'PostGIS' : 'the SQL fallback (PostGIS not installed)'}`);
+    return available;
+}
+
+// Whether migration 0011 found PostGIS and added the geography columns, checked once per process
+export function hasPostgis(db: DbClient): Promise<boolean> {
+    postgis ??= detectPostgis(db).catch((error) => {
+        postgis = null;
+        throw error;
+    });
+    return postgis;
+}
+
+function geographyPoint(db: DbClient, point: Coordinates): Fragment {
+    return db`ST_SetSRID(ST_MakePoint(${point.longitude}::float8, ${point.latitude}::float8), 4326)::geography`;
+}
+
+// Rows whose latitude/longitude columns are within the box around the radius
+// Near the poles or across the antimeridian only the latitude is bounded
+function boundingBox(db: DbClient, point: Coordinates, radiusKm: number, latColumn: string, lngColumn: string): Fragment {
+    const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+    const lngDelta = radiusKm / (KM_PER_DEGREE_LATITUDE * Math.cos(point.latitude * Math.PI / 180));
+    const latitudes = db`${db(latColumn)} BETWEEN ${point.latitude - latDelta} AND ${point.latitude + latDelta}`;
+
+    if (!Number.isFinite(lngDelta) || point.longitude - lngDelta < -180 || point.longitude + lngDelta > 180) {
+        return latitudes;
+    }
+    return db`${latitudes} AND ${db(lngColumn)} BETWEEN ${point.longitude - lngDelta} AND ${point.longitude + lngDelta}`;
+}
+
+function haversineKm(db: DbClient, point: Coordinates, latColumn: string, lngColumn: string): Fragment {
+    return db`
+        ${2 * EARTH_RADIUS_KM} * asin(sqrt(
+            power(sin(radians(${db(latColumn)} - ${point.latitude}) / 2), 2) +
+            cos(radians(${point.latitude})) * cos(radians(${db(latColumn)})) *
+            power(sin(radians(${db(lngColumn)} - ${point.longitude}) / 2), 2)
+        ))
+    `;
+}
+
+// Drivers within radiusKm of a point; `where` adds conditions (starting with AND) on the drivers row `d`
+export async function findDriversNear(
+    db: DbClient, point: Coordinates, radiusKm: number, where: Fragment = db``, limit?: number
+): Promise<Row[]> {
+    const limitClause = limit !== undefined ? db`LIMIT ${limit}` : db``;
+
+    if (await hasPostgis(db)) {
+        const origin = geographyPoint(db, point);
+        return db`
+            SELECT d.*, ST_Distance(d.location, ${origin}) / 1000 AS straight_line_km
+            FROM drivers d
+            WHERE ST_DWithin(d.location, ${origin}, ${radiusKm * 1000})
+                ${where}
+            ORDER BY d.location <-> ${origin}
+            ${limitClause}
+        `;
+    }
+
+    return db`
+        SELECT * FROM (
+            SELECT d.*, ${haversineKm(db, point, 'latitude', 'longitude')} AS straight_line_km
+            FROM drivers d
+            WHERE ${boundingBox(db, point, radiusKm, 'latitude', 'longitude')}
+                ${where}
+        ) nearby
+        WHERE straight_line_km <= ${radiusKm}
+        ORDER BY straight_line_km
+        ${limitClause}
+    `;
+}
+
+// Pending, dispatched broadcast rides picked up within radiusKm of a point
+// Scheduled rides wait for dispatch (rideScheduler.ts), auto-dispatched ones go to one driver at a time (dispatch.ts)
+export async function findPendingRidesNear(db: DbClient, point: Coordinates, radiusKm: number): Promise<Row[]> {
+    const pending = db`
+        r.status = 'pending'
+        AND r.assigned_driver_id IS NULL
+        AND r.dispatched_at IS NOT NULL
+        AND r.dispatch_mode = 'broadcast'
+    `;
+
+    if (await hasPostgis(db)) {
+        const origin = geographyPoint(db, point);
+        return db`
+            SELECT r.*, ST_Distance(r.origin_location, ${origin}) / 1000 AS straight_line_km
+            FROM rides r
+            WHERE ${pending}
+                AND ST_DWithin(r.origin_location, ${origin}, ${radiusKm * 1000})
+            ORDER BY r.origin_location <-> ${origin}
+        `;
+    }
+
+    return db`
+        SELECT * FROM (
+            SELECT r.*, ${haversineKm(db, point, 'origin_lat', 'origin_lng')} AS straight_line_km
+            FROM rides r
+            WHERE ${pending}
+                AND ${boundingBox(db, point, radiusKm, 'origin_lat', 'origin_lng')}
+        ) nearby
+        WHERE straight_line_km <= ${radiusKm}
+        ORDER BY straight_line_km
+    `;
+}
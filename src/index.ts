@@ -1,102 +1,43 @@
-import { Elysia } from 'elysia';
-import { cors } from '@elysiajs/cors';
-import sql, { initDatabase } from './db';
-import { userRoutes } from './users';
-import { rideRoutes } from './rides';
-import { driverRoutes } from "./drivers.ts";
-
-// Initialize database
-await initDatabase();
-console.log('✅ Database connected successfully');
-
-const clients = new Set<any>();
-
-// Broadcast helper for WebSocket
-function broadcastToClients(message: string) {
-    console.log('📡 Broadcasting to WebSocket clients:', message);
-    for (const client of clients) {
-        if (client.readyState === 1) { // 1 = OPEN
-            client.send(message);
-        }
-    }
+import sql from './db';
+import { ensureSchemaUpToDate } from './migrations';
+import { app } from './app';
+import { startEventBus } from './eventBus';
+import { startRideScheduler } from './rideScheduler';
+import { hasPostgis } from './geoQueries';
+import { startLocationRetention } from './locationHistory';
+import { startPresenceSweeper } from './driverPresence';
+
+// Several instances can share one database, each on its own PORT
+const port = Number(Bun.env.PORT) || 3001;
+
+// Refuse to serve on an outdated schema unless AUTO_MIGRATE=true
+try {
+    await ensureSchemaUpToDate(sql, { autoApply: Bun.env.AUTO_MIGRATE === 'true' });
+} catch (error: any) {
+    console.error(`❌ ${error?.message || error}`);
+    process.exit(1);
 }
+console.log('✅ Database connected successfully');
 
-// Main Elysia app
-const app = new Elysia()
-    .use(cors({
-        origin: true, // Allow all origins
-        methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-        allowedHeaders: ['Content-Type', 'Authorization'],
-        credentials: true,
-    }))
-    .decorate('db', sql) // ✅ This makes db available in all route handlers!
-
-    // 👇 Include route modules (order matters - decorate before routes)
-    .use(userRoutes)
-    .use(rideRoutes)
-    .use(driverRoutes)
-
-    // Health check endpoint
-    .get('/health', () => ({ status: 'ok', timestamp: new Date().toISOString() }))
-
-    // Test database endpoint
-    .get('/test-db', async ({ db }) => {
-        try {
-            const result = await db`SELECT NOW() as time`;
-            return { success: true, time: result[0]!.time, message: 'Database is working!' };
-        } catch (error: any) {
-            return { success: false, error: error?.message || 'Unknown error' };
-        }
-    })
+// Logs whether nearby lookups use PostGIS or the SQL fallback
+await hasPostgis(sql);
 
-    // Debug endpoint to test CORS and connectivity
-    .get('/api/debug', ({ headers }) => ({
-        message: 'API is working!',
-        timestamp: new Date().toISOString(),
-        headers: Object.fromEntries(Object.entries(headers)),
-    }))
+// Relay WebSocket events to and from the other instances
+await startEventBus(sql);
 
-    .post('/api/debug', ({ body, headers }) => ({
-        message: 'POST request received',
-        body,
-        headers: Object.fromEntries(Object.entries(headers)),
-    }))
+// Dispatch, remind about and expire scheduled rides
+startRideScheduler(sql);
 
-    // 👇 WebSocket endpoint
-    .ws('/ws', {
-        open(ws) {
-            clients.add(ws);
-            console.log('🔌 WebSocket connected. Total:', clients.size);
-        },
-        close(ws) {
-            clients.delete(ws);
-            console.log('❌ WebSocket disconnected. Total:', clients.size);
-        },
-        message(ws, message) {
-            console.log('📨 WS received:', message);
+// Partition, thin out and prune the driver location history
+startLocationRetention(sql);
 
-            try {
-                let parsed;
-                if (typeof message === 'string') {
-                    parsed = JSON.parse(message);
-                } else if (typeof message === 'object') {
-                    parsed = message;
-                } else {
-                    throw new Error('Unexpected message format');
-                }
+// Take drivers whose app went silent offline
+startPresenceSweeper(sql);
 
-                if (parsed.type === 'locationUpdate') {
-                    // Broadcast to all connected clients
-                    broadcastToClients(JSON.stringify(parsed));
-                }
-            } catch (err) {
-                console.error('❗ Invalid message format:', err);
-            }
-        }
-    })
-    .listen(3001);
+app.listen(port);
 
-console.log(`✅ Elysia is running at http://localhost:3001`);
-console.log(`🏥 Health check: http://localhost:3001/health`);
-console.log(`🧪 Database test: http://localhost:3001/test-db`);
-console.log('🚀 Server ready!');
\ No newline at end of file
+console.log(`✅ Elysia is running at http://localhost:${port}`);
+console.log(`🏥 Health check: http://localhost:${port}/health`);
+console.log(`🧪 Database test (admin): http://localhost:${port}/test-db`);
+console.log(`📚 API docs: http://localhost:${port}/docs`);
+console.log('🚀 Server ready!');
@@ -0,0 +1,100 @@
+import type { PendingQuery, Row, Sql } from 'postgres';
+import type { DbClient } from './db';
+
+// Every reference between tables, mirroring the foreign keys in
+// migrations/0005_foreign_keys.up.sql. Ordered so that repairing one
+// reference (e.g. deleting a ride) happens before the checks that depend on it
+export interface ReferenceCheck {
+    table: string;
+    key: string; // Primary key of `table`, reported for orphaned rows
+    column: string;
+    references: string; // Referenced table, always by its `id`
+    onDelete: 'cascade' | 'set null';
+    // Extra assignments when nulling the column, to keep related state consistent
+    alsoSet?: (db: DbClient) => PendingQuery<Row[]>;
+}
+
+export const REFERENCE_CHECKS: ReferenceCheck[] = [
+    { table: 'rides', key: 'id', column: 'user_id', references: 'users', onDelete: 'cascade' },
+    { table: 'rides', key: 'id', column: 'assigned_driver_id', references: 'drivers', onDelete: 'set null' },
+    {
+        table: 'users', key: 'id', column: 'driver_id', references: 'drivers', onDelete: 'set null',
+        alsoSet: (db) => db`is_driver = false`,
+    },
+    {
+        table: 'drivers', key: 'id', column: 'current_ride_id', references: 'rides', onDelete: 'set null',
+        // A driver busy with a ride that no longer exists is free again
+        alsoSet: (db) => db`availability = CASE WHEN availability = 'online_busy' THEN 'online_free' ELSE availability END`,
+    },
+    { table: 'driver_locations', key: 'driver_id', column: 'driver_id', references: 'drivers', onDelete: 'cascade' },
+    { table: 'ride_events', key: 'id', column: 'ride_id', references: 'rides', onDelete: 'cascade' },
+    { table: 'ride_events', key: 'id', column: 'driver_id', references: 'drivers', onDelete: 'set null' },
+];
+
+export interface OrphanReport {
+    check: ReferenceCheck;
+    count: number;
+    sample: { key: string; ref: string }[];
+}
+
+const SAMPLE_SIZE = 10;
+
+function orphanCondition(db: DbClient, check: ReferenceCheck) {
+    return db`
+        c.${db(check.column)} IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM ${db(check.references)} p WHERE p.id = c.${db(check.column)})
+    `;
+}
+
+// Find rows pointing at records that don't exist
+export async function auditReferences(db: DbClient): Promise<OrphanReport[]> {
+    const reports: OrphanReport[] = [];
+
+    for (const check of REFERENCE_CHECKS) {
+        const counts = await db`
+            SELECT COUNT(*) AS count FROM ${db(check.table)} c WHERE ${orphanCondition(db, check)}
+        `;
+        const sample = await db`
+            SELECT c.${db(check.key)} AS key, c.${db(check.column)} AS ref
+            FROM ${db(check.table)} c
+            WHERE ${orphanCondition(db, check)}
+            LIMIT ${SAMPLE_SIZE}
+        `;
+
+        reports.push({
+            check,
+            count: parseInt(counts[0]!.count as string),
+            sample: sample.map((row: any) => ({ key: row.key, ref: row.ref })),
+        });
+    }
+
+    return reports;
+}
+
+// Apply each reference's ON DELETE behaviour to its orphans, in one transaction
+// Returns the number of rows deleted or updated per check
+export async function repairReferences(sql: Sql): Promise<{ check: ReferenceCheck; repaired: number }[]> {
+    return sql.begin(async (tx) => {
+        const results: { check: ReferenceCheck; repaired: number }[] = [];
+
+        for (const check of REFERENCE_CHECKS) {
+            const result = check.onDelete === 'cascade'
+                ? await tx`
+                    DELETE FROM ${tx(check.table)} c WHERE ${orphanCondition(tx, check)}
+                `
+                : await tx`
+                    UPDATE ${tx(check.table)} c
+                    SET ${tx(check.column)} = NULL ${check.alsoSet ? tx`, ${check.alsoSet(tx)}` : tx``}
+                    WHERE ${orphanCondition(tx, check)}
+                `;
+
+            results.push({ check, repaired: result.count });
+        }
+
+        return results;
+    }) as Promise<{ check: ReferenceCheck; repaired: number }[]>;
+}
+
+export function describeCheck(check: ReferenceCheck): string {
+    return `${check.table}.${check.column} -> ${check.references}.id (on delete ${check.onDelete})`;
+}
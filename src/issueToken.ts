@@ -0,0 +1,14 @@
+import { signSessionToken } from './auth';
+import type { AuthRole } from './types';
+
+// Mint a session token from the command line, e.g. to bootstrap an admin:
+//   bun run auth:token admin ops@pullup.app
+const [role, subject, ttl] = Bun.argv.slice(2);
+
+if (!role || !subject || !['rider', 'driver', 'admin'].includes(role)) {
+    console.error('Usage: bun run auth:token <rider|driver|admin> <subject id> [ttl seconds]');
+    process.exit(1);
+}
+
+console.log(signSessionToken(subject, role as AuthRole, ttl ? parseInt(ttl) : undefined));
+process.exit(0);
@@ -0,0 +1,247 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Sql } from 'postgres';
+import type { DbClient } from './db';
+import type { DriverLocationAnomalies, LocationAnomaly, LocationAnomalyKind } from './types';
+import type { LocationReading } from './driverLocations';
+import { calculateDistanceKm } from './geo';
+import { conflict, notFound } from './errors';
+
+// GPS plausibility checks: every location a driver reports is compared with their previous fix
+//   low_accuracy          accuracy worse than MAX_ACCURACY_METERS
+//   out_of_order          the device's timestamp isn't newer than the previous fix's
+//   future_timestamp      the device's timestamp is more than MAX_CLOCK_SKEW_SECONDS ahead
+//   impossible_speed      getting there from the previous fix takes more than MAX_SPEED_KMH
+//   outside_service_area  outside LOCATION_SERVICE_AREA ("minLat,minLng,maxLat,maxLng"), when set
+// A flagged update is quarantined in location_anomalies instead of moving the driver, and its
+// weight is added to the driver's anomaly score (imprecise fixes are only dropped, honest drivers
+// get plenty of them between tall buildings). The score halves every HALF_LIFE_HOURS;
+// drivers at EXCLUDE_SCORE or above are left out of matching and dispatch until it decays
+
+const MAX_ACCURACY_METERS = parseFloat(Bun.env.LOCATION_MAX_ACCURACY_METERS || '500');
+const MAX_SPEED_KMH = parseFloat(Bun.env.LOCATION_MAX_SPEED_KMH || '200');
+const MAX_CLOCK_SKEW_SECONDS = parseInt(Bun.env.LOCATION_MAX_CLOCK_SKEW_SECONDS || '30');
+const HALF_LIFE_HOURS = parseFloat(Bun.env.LOCATION_ANOMALY_HALF_LIFE_HOURS || '6');
+const EXCLUDE_SCORE = parseFloat(Bun.env.LOCATION_ANOMALY_EXCLUDE_SCORE || '10');
+
+const SERVICE_AREA = parseServiceArea(Bun.env.LOCATION_SERVICE_AREA);
+
+const WEIGHTS: Record<LocationAnomalyKind, number> = {
+    low_accuracy: 0,
+    out_of_order: 1,
+    future_timestamp: 2,
+    impossible_speed: 5,
+    outside_service_area: 5,
+};
+
+interface ServiceArea {
+    minLatitude: number;
+    minLongitude: number;
+    maxLatitude: number;
+    maxLongitude: number;
+}
+
+// The last accepted fix, with the device's timestamp when it sent one
+export interface PreviousFix {
+    latitude: number;
+    longitude: number;
+    accuracy?: number;
+    reportedAt?: Date;
+    receivedAt: Date;
+}
+
+export interface AnomalyCheck {
+    kinds: LocationAnomalyKind[];
+    distanceKm?: number;
+    impliedSpeedKmh?: number;
+}
+
+function parseServiceArea(value: string | undefined): ServiceArea | null {
+    if (!value) return null;
+
+    const bounds = value.split(',').map(Number);
+    if (bounds.length !== 4 || bounds.some((bound) => !Number.isFinite(bound))) {
+        throw new Error(`LOCATION_SERVICE_AREA must be "minLat,minLng,maxLat,maxLng", got '${value}'`);
+    }
+
+    const [minLatitude, minLongitude, maxLatitude, maxLongitude] = bounds as [number, number, number, number];
+    return { minLatitude, minLongitude, maxLatitude, maxLongitude };
+}
+
+export function mapRowToLocationAnomaly(row: any): LocationAnomaly {
+    return {
+        id: row.id,
+        driverId: row.driver_id,
+        kinds: row.kinds,
+        latitude: row.latitude,
+        longitude: row.longitude,
+        accuracy: row.accuracy ?? undefined,
+        reportedAt: row.reported_at ?? undefined,
+        distanceKm: row.distance_km ?? undefined,
+        impliedSpeedKmh: row.implied_speed_kmh ?? undefined,
+        scoreAdded: row.score_added,
+        detectedAt: row.detected_at,
+    };
+}
+
+// A drivers row's anomaly score decayed to now
+export function currentAnomalyScore(row: any): number {
+    if (!row.location_anomaly_score || !row.location_anomaly_at) return 0;
+
+    const hours = (Date.now() - new Date(row.location_anomaly_at).getTime()) / 3_600_000;
+    return row.location_anomaly_score * Math.pow(0.5, hours / HALF_LIFE_HOURS);
+}
+
+export function isExcludedForAnomalies(row: any): boolean {
+    return currentAnomalyScore(row) >= EXCLUDE_SCORE;
+}
+
+// Compare a reading with the previous fix; `now` is when the server received it
+export function detectAnomalies(reading: LocationReading, previous: PreviousFix | null, now: Date = new Date()): AnomalyCheck {
+    const kinds: LocationAnomalyKind[] = [];
+    const reportedAt = reading.timestamp ? new Date(reading.timestamp) : undefined;
+
+    if (reading.accuracy !== undefined && reading.accuracy > MAX_ACCURACY_METERS) {
+        kinds.push('low_accuracy');
+    }
+
+    if (reportedAt && reportedAt.getTime() > now.getTime() + MAX_CLOCK_SKEW_SECONDS * 1000) {
+        kinds.push('future_timestamp');
+    }
+
+    if (SERVICE_AREA && (
+        reading.latitude < SERVICE_AREA.minLatitude || reading.latitude > SERVICE_AREA.maxLatitude ||
+        reading.longitude < SERVICE_AREA.minLongitude || reading.longitude > SERVICE_AREA.maxLongitude
+    )) {
+        kinds.push('outside_service_area');
+    }
+
+    if (!previous) return { kinds };
+
+    if (reportedAt && previous.reportedAt && reportedAt.getTime() <= previous.reportedAt.getTime()) {
+        kinds.push('out_of_order');
+        return { kinds };
+    }
+
+    // Compare device times when both fixes have one, arrival times otherwise
+    const elapsedMs = reportedAt && previous.reportedAt
+        ? reportedAt.getTime() - previous.reportedAt.getTime()
+        : now.getTime() - previous.receivedAt.getTime();
+
+    const distanceKm = calculateDistanceKm(previous.latitude, previous.longitude, reading.latitude, reading.longitude);
+    // Either fix may be off by its accuracy, only the distance beyond that counts
+    const uncertaintyKm = ((previous.accuracy ?? 0) + (reading.accuracy ?? 0)) / 1000;
+    const impliedSpeedKmh = Math.max(0, distanceKm - uncertaintyKm) / (Math.max(elapsedMs, 1000) / 3_600_000);
+
+    if (impliedSpeedKmh > MAX_SPEED_KMH) {
+        kinds.push('impossible_speed');
+    }
+
+    return {
+        kinds,
+        distanceKm: Math.round(distanceKm * 1000) / 1000,
+        impliedSpeedKmh: Math.round(impliedSpeedKmh),
+    };
+}
+
+async function loadPreviousFix(db: DbClient, driverId: string): Promise<PreviousFix | null> {
+    const rows = await db`
+        SELECT
+            d.latitude AS driver_latitude, d.longitude AS driver_longitude, d.last_location_update,
+            l.latitude, l.longitude, l.accuracy, l.reported_at, l.timestamp
+        FROM drivers d
+        LEFT JOIN driver_locations l ON l.driver_id = d.id
+        WHERE d.id = ${driverId}
+    `;
+
+    if (rows.length === 0) {
+        throw notFound('Driver not found');
+    }
+
+    const row = rows[0]!;
+    if (row.latitude != null && row.longitude != null) {
+        return {
+            latitude: row.latitude,
+            longitude: row.longitude,
+            accuracy: row.accuracy ?? undefined,
+            reportedAt: row.reported_at ? new Date(row.reported_at) : undefined,
+            receivedAt: new Date(row.timestamp),
+        };
+    }
+
+    // Positions stored before driver_locations was kept up to date by every route only live on the driver record
+    if (row.driver_latitude != null && row.driver_longitude != null && row.last_location_update) {
+        return {
+            latitude: row.driver_latitude,
+            longitude: row.driver_longitude,
+            receivedAt: new Date(row.last_location_update),
+        };
+    }
+
+    return null;
+}
+
+async function quarantine(sql: Sql, driverId: string, reading: LocationReading, check: AnomalyCheck): Promise<LocationAnomaly> {
+    const now = new Date().toISOString();
+    const scoreAdded = check.kinds.reduce((sum, kind) => sum + WEIGHTS[kind], 0);
+
+    return sql.begin(async (tx) => {
+        const drivers = await tx`
+            SELECT location_anomaly_score, location_anomaly_at FROM drivers WHERE id = ${driverId} FOR UPDATE
+        `;
+
+        await tx`
+            UPDATE drivers SET
+                location_anomaly_score = ${currentAnomalyScore(drivers[0]!) + scoreAdded},
+                location_anomaly_at = ${now}
+            WHERE id = ${driverId}
+        `;
+
+        const rows = await tx`
+            INSERT INTO location_anomalies (
+                id, driver_id, kinds, latitude, longitude, accuracy, reported_at,
+                distance_km, implied_speed_kmh, score_added, detected_at
+            ) VALUES (
+                ${uuidv4()}, ${driverId}, ${check.kinds}, ${reading.latitude}, ${reading.longitude},
+                ${reading.accuracy ?? null}, ${reading.timestamp ?? null},
+                ${check.distanceKm ?? null}, ${check.impliedSpeedKmh ?? null}, ${scoreAdded}, ${now}
+            )
+            RETURNING *
+        `;
+
+        return mapRowToLocationAnomaly(rows[0]!);
+    });
+}
+
+// Check a reading before it's applied; implausible ones are quarantined and rejected with a 409
+export async function assertPlausibleLocation(sql: Sql, driverId: string, reading: LocationReading): Promise<void> {
+    const check = detectAnomalies(reading, await loadPreviousFix(sql, driverId));
+    if (check.kinds.length === 0) return;
+
+    const anomaly = await quarantine(sql, driverId, reading, check);
+    throw conflict(`Location update rejected as implausible: ${check.kinds.join(', ')}`, { anomaly });
+}
+
+export async function getDriverLocationAnomalies(db: DbClient, driverId: string, limit: number): Promise<DriverLocationAnomalies> {
+    const drivers = await db`
+        SELECT location_anomaly_score, location_anomaly_at FROM drivers WHERE id = ${driverId}
+    `;
+
+    if (drivers.length === 0) {
+        throw notFound('Driver not found');
+    }
+
+    const rows = await db`
+        SELECT * FROM location_anomalies
+        WHERE driver_id = ${driverId}
+        ORDER BY detected_at DESC
+        LIMIT ${limit}
+    `;
+
+    const score = currentAnomalyScore(drivers[0]!);
+    return {
+        driverId,
+        score: Math.round(score * 100) / 100,
+        excludedFromMatching: score >= EXCLUDE_SCORE,
+        anomalies: rows.map(mapRowToLocationAnomaly),
+    };
+}
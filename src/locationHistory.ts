@@ -0,0 +1,173 @@
+import type { Sql } from 'postgres';
+import type { DbClient } from './db';
+import type { RideRoute, RoutePoint } from './types';
+import type { LocationReading } from './driverLocations';
+import { calculateDistanceKm, encodePolyline } from './geo';
+
+// Location history: every reading a driver reports is appended to driver_location_history,
+// tagged with the ride they were on, so GET /api/rides/:id/route can replay the trail
+// The table is partitioned by month (see migration 0012). An in-process job on every instance
+//   - creates the partitions for the coming months
+//   - thins points older than DOWNSAMPLE_AFTER_DAYS to one per DOWNSAMPLE_SECONDS per driver and ride
+//   - drops points older than RETENTION_DAYS, whole partitions at a time where it can
+// Instances sharing a database take turns through an advisory lock
+
+const RETENTION_DAYS = parseInt(Bun.env.LOCATION_HISTORY_RETENTION_DAYS || '90');
+const DOWNSAMPLE_AFTER_DAYS = parseInt(Bun.env.LOCATION_HISTORY_DOWNSAMPLE_AFTER_DAYS || '7');
+const DOWNSAMPLE_SECONDS = parseInt(Bun.env.LOCATION_HISTORY_DOWNSAMPLE_SECONDS || '30');
+const INTERVAL_MINUTES = parseInt(Bun.env.LOCATION_HISTORY_JOB_INTERVAL_MINUTES || '60');
+
+const MONTHS_AHEAD = 2;
+const RETENTION_LOCK_ID = 4_240_002;
+const PARTITION_NAME = /^driver_location_history_(\d{4})_(\d{2})$/;
+
+const DAY_MS = 24 * 60 * 60_000;
+
+let running = false;
+
+export function mapRowToRoutePoint(row: any): RoutePoint {
+    return {
+        latitude: row.latitude,
+        longitude: row.longitude,
+        heading: row.heading ?? undefined,
+        speed: row.speed ?? undefined,
+        accuracy: row.accuracy ?? undefined,
+        recordedAt: row.recorded_at,
+    };
+}
+
+// Append a reading to the driver's history; rideId is the ride they're on, if any
+export async function recordLocation(
+    db: DbClient, driverId: string, rideId: string | null, reading: LocationReading, recordedAt: string
+): Promise<void> {
+    const { latitude, longitude, heading, speed, accuracy } = reading;
+    await db`
+        INSERT INTO driver_location_history (driver_id, ride_id, latitude, longitude, heading, speed, accuracy, recorded_at)
+        VALUES (
+            ${driverId}, ${rideId}, ${latitude}, ${longitude},
+            ${heading ?? null}, ${speed ?? null}, ${accuracy ?? null}, ${recordedAt}
+        )
+    `;
+}
+
+// The breadcrumb trail of a ride: where its driver reported being while on it
+export async function getRideRoute(db: DbClient, rideId: string): Promise<RideRoute> {
+    const rows = await db`
+        SELECT latitude, longitude, heading, speed, accuracy, recorded_at
+        FROM driver_location_history
+        WHERE ride_id = ${rideId}
+        ORDER BY recorded_at, id
+    `;
+
+    const points = rows.map(mapRowToRoutePoint);
+    let distanceKm = 0;
+    for (let index = 1; index < points.length; index++) {
+        const from = points[index - 1]!;
+        const to = points[index]!;
+        distanceKm += calculateDistanceKm(from.latitude, from.longitude, to.latitude, to.longitude);
+    }
+
+    return {
+        rideId,
+        points,
+        polyline: encodePolyline(points),
+        distanceKm: Math.round(distanceKm * 100) / 100,
+    };
+}
+
+function addMonths(date: Date, months: number): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+}
+
+async function createPartitions(db: DbClient) {
+    const now = new Date();
+    for (let month = 0; month <= MONTHS_AHEAD; month++) {
+        await db`SELECT create_location_history_partition(${addMonths(now, month).toISOString().slice(0, 10)}::date)`;
+    }
+}
+
+// Drop the monthly partitions that end before the cutoff, then delete older points left in the others
+async function prune(db: DbClient, cutoff: Date): Promise<number> {
+    const partitions = await db`
+        SELECT c.relname AS name
+        FROM pg_inherits i
+        JOIN pg_class c ON c.oid = i.inhrelid
+        JOIN pg_class p ON p.oid = i.inhparent
+        WHERE p.relname = 'driver_location_history'
+    `;
+
+    for (const { name } of partitions) {
+        const match = PARTITION_NAME.exec(name);
+        if (!match) continue;
+
+        const end = new Date(Date.UTC(Number(match[1]), Number(match[2]), 1));
+        if (end <= cutoff) {
+            await db`DROP TABLE IF EXISTS ${db(name)}`;
+        }
+    }
+
+    const deleted = await db`
+        DELETE FROM driver_location_history WHERE recorded_at < ${cutoff.toISOString()}
+    `;
+    return deleted.count;
+}
+
+// Keep the first point of every DOWNSAMPLE_SECONDS bucket per driver and ride
+async function downsample(db: DbClient, from: Date, to: Date): Promise<number> {
+    const deleted = await db`
+        DELETE FROM driver_location_history h
+        USING (
+            SELECT id, recorded_at FROM (
+                SELECT id, recorded_at, row_number() OVER (
+                    PARTITION BY driver_id, ride_id, floor(extract(epoch FROM recorded_at) / ${DOWNSAMPLE_SECONDS})
+                    ORDER BY recorded_at, id
+                ) AS position
+                FROM driver_location_history
+                WHERE recorded_at >= ${from.toISOString()} AND recorded_at < ${to.toISOString()}
+            ) ranked
+            WHERE position > 1
+        ) extra
+        WHERE h.id = extra.id AND h.recorded_at = extra.recorded_at
+    `;
+    return deleted.count;
+}
+
+export async function applyLocationRetention(sql: Sql): Promise<{ pruned: number; downsampled: number } | null> {
+    return sql.begin(async (tx) => {
+        const locked = await tx`SELECT pg_try_advisory_xact_lock(${RETENTION_LOCK_ID}) AS locked`;
+        if (!locked[0]!.locked) return null;
+
+        const retentionCutoff = new Date(Date.now() - RETENTION_DAYS * DAY_MS);
+        const downsampleCutoff = new Date(Date.now() - DOWNSAMPLE_AFTER_DAYS * DAY_MS);
+
+        await createPartitions(tx);
+        const pruned = await prune(tx, retentionCutoff);
+        const downsampled = downsampleCutoff > retentionCutoff
+            ? await downsample(tx, retentionCutoff, downsampleCutoff)
+            : 0;
+
+        return { pruned, downsampled };
+    });
+}
+
+async function tick(sql: Sql) {
+    if (running) return;
+    running = true;
+
+    try {
+        const result = await applyLocationRetention(sql);
+        if (result && (result.pruned > 0 || result.downsampled > 0)) {
+            console.log(`🧹 Location history: pruned ${result.pruned}, downsampled ${result.downsampled} points`);
+        }
+    } catch (error) {
+        console.error('❗ Location history retention failed:', (error as Error).message);
+    } finally {
+        running = false;
+    }
+}
+
+export function startLocationRetention(sql: Sql) {
+    setInterval(() => void tick(sql), INTERVAL_MINUTES * 60_000).unref();
+    void tick(sql);
+    console.log(`🧹 Location history kept ${RETENTION_DAYS} days, thinned after ${DOWNSAMPLE_AFTER_DAYS} (every ${INTERVAL_MINUTES} min)`);
+}
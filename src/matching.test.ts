@@ -0,0 +1,147 @@
+import { afterAll, beforeAll, describe, expect, setDefaultTimeout, test } from 'bun:test';
+import postgres from 'postgres';
+import type { Subprocess } from 'bun';
+import { v4 as uuidv4 } from 'uuid';
+
+// A ride priced under a driver's minimum still reaches them, polled and pushed, and they can counter it
+// Needs a Postgres database the instance may migrate:
+//   TEST_DATABASE_URL="postgres://localhost:5432/pullup_test?sslmode=disable" bun test
+
+const DATABASE_URL = Bun.env.TEST_DATABASE_URL;
+const PORT = 3913;
+const URL = `http://localhost:${PORT}`;
+
+// Hooks included, starting the instance takes a while
+setDefaultTimeout(60_000);
+
+async function waitFor<T>(check: () => Promise<T | undefined>, timeoutMs: number, what: string): Promise<T> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+        const value = await check().catch(() => undefined);
+        if (value !== undefined) return value;
+        await Bun.sleep(200);
+    }
+    throw new Error(`Timed out waiting for ${what}`);
+}
+
+describe.skipIf(!DATABASE_URL)('rides below the driver minimum', () => {
+    const driverId = uuidv4();
+    const riderId = uuidv4();
+    const rideId = uuidv4();
+    // The driver wants at least $20.00, the rider offers $10.00
+    const minPrice = { amount: 2000, currency: 'USD' };
+    const fare = { amount: 1000, currency: 'USD' };
+
+    let sql: postgres.Sql;
+    let authSecret: string;
+    let token: string;
+    let instance: Subprocess;
+
+    function api(path: string, init: RequestInit = {}) {
+        return fetch(`${URL}${path}`, {
+            ...init,
+            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        });
+    }
+
+    beforeAll(async () => {
+        // Tokens must verify on the instance, which shares this secret
+        // Test files share one process, keep the secret auth.ts may already have read
+        authSecret = Bun.env.AUTH_SECRET ||= 'matching-test-secret';
+        const { signSessionToken } = await import('./auth');
+        token = signSessionToken(driverId, 'driver');
+
+        instance = Bun.spawn(['bun', 'src/index.ts'], {
+            env: { ...Bun.env, PORT: String(PORT), DATABASE_URL, AUTH_SECRET: authSecret, AUTO_MIGRATE: 'true' },
+            stdout: 'ignore',
+            stderr: 'inherit',
+        });
+        await waitFor(async () => (await fetch(`${URL}/health`)).ok || undefined, 30_000, 'instance');
+
+        sql = postgres(DATABASE_URL!, { max: 1, onnotice: () => {} });
+        const now = new Date().toISOString();
+        await sql`
+            INSERT INTO drivers (
+                id, full_name, email, phone_number, address, license_number, vehicle_model, vehicle_year,
+                vehicle_plate, status, availability, last_heartbeat_at, latitude, longitude,
+                min_price_per_ride_amount, price_currency, application_date, created_at, updated_at
+            ) VALUES (
+                ${driverId}, 'Below Minimum', ${`${driverId}@example.com`}, '555-0100', '1 Test St', ${driverId},
+                'Test Car', '2020', ${driverId}, 'approved', 'online_free', ${now}, 40.715, -74.0,
+                ${minPrice.amount}, ${minPrice.currency}, ${now}, ${now}, ${now}
+            )
+        `;
+        await sql`
+            INSERT INTO users (id, email, username, created_at, updated_at)
+            VALUES (${riderId}, ${`${riderId}@example.com`}, ${riderId}, ${now}, ${now})
+        `;
+        await sql`
+            INSERT INTO rides (
+                id, user_id, user_email, wallet_address, origin_lat, origin_lng, destination_lat, destination_lng,
+                origin_address, destination_address, status, fare_amount, fare_currency, dispatched_at,
+                created_at, updated_at
+            ) VALUES (
+                ${rideId}, ${riderId}, ${`${riderId}@example.com`}, '', 40.7128, -74.006, 40.7306, -73.9866,
+                'Downtown', 'Union Square', 'pending', ${fare.amount}, ${fare.currency}, ${now},
+                ${now}, ${now}
+            )
+        `;
+    });
+
+    afterAll(async () => {
+        if (instance) {
+            instance.kill();
+            await instance.exited;
+        }
+        if (sql) {
+            await sql`DELETE FROM counter_offers WHERE ride_id = ${rideId}`;
+            await sql`DELETE FROM rides WHERE id = ${rideId}`;
+            await sql`DELETE FROM drivers WHERE id = ${driverId}`;
+            await sql`DELETE FROM users WHERE id = ${riderId}`;
+            await sql.end();
+        }
+    });
+
+    test('lists the ride, marked below minimum', async () => {
+        const response = await api(`/api/rides/matching/${driverId}?limit=100`);
+        expect(response.status).toBe(200);
+
+        const { matchingRides } = await response.json() as { matchingRides: any[] };
+        const match = matchingRides.find((ride) => ride.id === rideId);
+
+        expect(match).toMatchObject({ belowMinimum: true, ridePrice: fare, driverMinPrice: minPrice });
+        expect(match.suggestedCounterPrice).toEqual(minPrice);
+    });
+
+    test('pushes the ride as an offer', async () => {
+        const socket = new WebSocket(`${URL.replace('http', 'ws')}/ws?token=${token}`);
+        const messages: any[] = [];
+        socket.addEventListener('message', (event) => messages.push(JSON.parse(String(event.data))));
+        await new Promise((resolve, reject) => {
+            socket.addEventListener('open', resolve, { once: true });
+            socket.addEventListener('error', reject, { once: true });
+        });
+
+        try {
+            socket.send(JSON.stringify({ type: 'subscribe', id: 'sub', channel: `offers:${driverId}` }));
+            const offer = await waitFor(async () =>
+                messages.find((message) => message.type === 'rideOffer' && message.ride.id === rideId), 5_000, 'rideOffer');
+
+            expect(offer.ride.belowMinimum).toBe(true);
+            expect(offer.ride.suggestedCounterPrice).toEqual(minPrice);
+        } finally {
+            socket.close();
+        }
+    });
+
+    test('takes a counter-offer at the suggested price', async () => {
+        const response = await api(`/api/rides/${rideId}/offers`, {
+            method: 'POST',
+            body: JSON.stringify({ driverId, price: minPrice }),
+        });
+        expect(response.status).toBe(200);
+
+        const { offer } = await response.json() as { offer: any };
+        expect(offer).toMatchObject({ rideId, driverId, price: minPrice, status: 'pending' });
+    });
+});
@@ -0,0 +1,211 @@
+import type { Coordinates, DriverMatchingPreferences, Money, Ride } from './types';
+import { mapRowToMatchingPreferences } from './types';
+import { calculateDistanceKm, estimateTravelSeconds } from './geo';
+import { getRouteMatrix, type RouteSummary } from './routing';
+import { isExcludedForAnomalies } from './locationAnomalies';
+
+// ============================================================
+// MATCHING ALGORITHM: does a ride fit a driver's preferences?
+// ============================================================
+//
+// A ride matches a driver when:
+// 1. It is within driver's max pickup radius, measured along the road (see routing.ts)
+// 2. Ride fare >= driver's minimum price (based on pricePerKm * distance or minPricePerRide),
+//    compared in minor units and only when both are in the same currency
+//    Drivers browsing or offered broadcast rides also see the ones below their minimum, marked
+//    belowMinimum with their minimum as suggestedCounterPrice, so they can counter them
+// 3. Driver's vehicle type >= ride's required vehicle type
+// 4. Driver's max passengers >= ride's passenger count
+//
+// Shared by GET /api/rides/matching/:driverId, the ride offers pushed over /ws and,
+// in reverse (drivers for one ride), automatic dispatch
+// ============================================================
+
+export interface DriverMatchProfile extends DriverMatchingPreferences {
+    driverId: string;
+    location: Coordinates;
+}
+
+export interface MatchingRide extends Ride {
+    distanceToPickup: number;
+    pickupEtaSeconds: number;
+    driverMinPrice: Money;
+    ridePrice: Money;
+    matchScore: number;
+    belowMinimum: boolean; // The fare is under driverMinPrice, the driver may counter it
+    suggestedCounterPrice?: Money; // Set when belowMinimum
+}
+
+export interface MatchOptions {
+    includeBelowMinimum?: boolean; // Keep rides under the driver's minimum price, marked belowMinimum
+}
+
+export type MatchSort = 'score' | 'distance' | 'price';
+
+// Upper bound of a driver's maxPickupRadiusKm preference
+export const MAX_PICKUP_RADIUS_KM = 100;
+
+// Build a driver's matching profile from a drivers row
+// Returns null when the driver has no known location to match from, or one that can't be
+// trusted because of recent GPS anomalies (see locationAnomalies.ts)
+export function toMatchProfile(row: any): DriverMatchProfile | null {
+    if (!row.latitude || !row.longitude) return null;
+    if (isExcludedForAnomalies(row)) return null;
+
+    return {
+        driverId: row.id,
+        location: { latitude: row.latitude, longitude: row.longitude },
+        ...mapRowToMatchingPreferences(row),
+    };
+}
+
+// Calculate driver's minimum price for a ride based on their preferences, in their currency
+function calculateDriverMinPrice(pricePerKm: Money, minPricePerRide: Money, distanceKm: number): Money {
+    const distanceBasedPrice = Math.round(pricePerKm.amount * distanceKm);
+    return { amount: Math.max(distanceBasedPrice, minPricePerRide.amount), currency: pricePerKm.currency };
+}
+
+function straightLineToPickup(ride: Ride, driver: DriverMatchProfile): number {
+    return calculateDistanceKm(
+        driver.location.latitude, driver.location.longitude,
+        ride.originCoordinates.latitude,
+        ride.originCoordinates.longitude
+    );
+}
+
+// Score a ride for a driver, or null if it fails one of the filters
+// `pickup` is the route from the driver to the ride's origin: straight-line when omitted, null when there is no road
+export function matchRide(
+    ride: Ride, driver: DriverMatchProfile, pickup?: RouteSummary | null, options: MatchOptions = {}
+): MatchingRide | null {
+    if (pickup === null) {
+        return null;
+    }
+
+    // Calculate distance from driver to pickup point
+    const distanceToPickup = pickup?.distanceKm ?? straightLineToPickup(ride, driver);
+    const pickupEtaSeconds = pickup?.durationSeconds ?? estimateTravelSeconds(distanceToPickup);
+
+    // FILTER 1: Check if ride is within driver's max pickup radius
+    if (distanceToPickup > driver.maxPickupRadiusKm) {
+        return null;
+    }
+
+    // FILTER 2: Check vehicle type requirement
+    const requiredVehicleType = ride.requiredVehicleType ?? 1;
+    if (driver.vehicleType < requiredVehicleType) {
+        return null;
+    }
+
+    // FILTER 3: Check passenger count
+    const passengerCount = ride.passengerCount ?? 1;
+    if (driver.maxPassengers < passengerCount) {
+        return null;
+    }
+
+    // Calculate ride distance (origin to destination)
+    const rideDistanceKm = ride.distanceKm ?? calculateDistanceKm(
+        ride.originCoordinates.latitude, ride.originCoordinates.longitude,
+        ride.destinationCoordinates.latitude, ride.destinationCoordinates.longitude
+    );
+
+    // Calculate driver's minimum acceptable price for this ride
+    const driverMinPrice = calculateDriverMinPrice(driver.pricePerKm, driver.minPricePerRide, rideDistanceKm);
+
+    // FILTER 4: Check if ride price meets driver's minimum
+    // Prices in different currencies can't be compared, so such rides never match
+    const ridePrice = ride.fare;
+    if (!ridePrice || ridePrice.currency !== driverMinPrice.currency) {
+        return null;
+    }
+    const belowMinimum = ridePrice.amount < driverMinPrice.amount;
+    if (belowMinimum && !options.includeBelowMinimum) {
+        return null;
+    }
+
+    // Calculate match score (higher is better)
+    // Score factors:
+    // - Closer pickup = higher score (max 40 points)
+    // - Higher profit margin = higher score (max 40 points, none below the driver's minimum)
+    // - Newer rides = slight bonus (max 20 points)
+
+    const distanceScore = Math.max(0, 40 * (1 - distanceToPickup / driver.maxPickupRadiusKm));
+    const profitMargin = ridePrice.amount > 0 ? (ridePrice.amount - driverMinPrice.amount) / ridePrice.amount : 0;
+    const profitScore = Math.max(0, Math.min(40, profitMargin * 100));
+
+    const rideAgeMinutes = (Date.now() - new Date(ride.createdAt).getTime()) / 60000;
+    const freshnessScore = Math.max(0, 20 * (1 - Math.min(rideAgeMinutes, 60) / 60));
+
+    const matchScore = distanceScore + profitScore + freshnessScore;
+
+    return {
+        ...ride,
+        distanceToPickup: Math.round(distanceToPickup * 100) / 100,
+        pickupEtaSeconds,
+        driverMinPrice,
+        ridePrice,
+        matchScore: Math.round(matchScore * 10) / 10,
+        belowMinimum,
+        ...(belowMinimum && { suggestedCounterPrice: driverMinPrice }),
+    };
+}
+
+export interface DriverCandidate {
+    driverId: string;
+    match: MatchingRide; // The ride as this driver would see it
+}
+
+// A road is never shorter than the straight line, so pairs outside the radius as the crow
+// flies are ruled out before asking the routing provider
+function withinStraightLineRadius(ride: Ride, driver: DriverMatchProfile): boolean {
+    return straightLineToPickup(ride, driver) <= driver.maxPickupRadiusKm;
+}
+
+// The rides a driver fits, with pickups measured along the road
+export async function matchRidesForDriver(
+    rides: Ride[], driver: DriverMatchProfile, options: MatchOptions = {}
+): Promise<MatchingRide[]> {
+    const nearby = rides.filter((ride) => withinStraightLineRadius(ride, driver));
+    if (nearby.length === 0) return [];
+
+    const [pickups] = await getRouteMatrix([driver.location], nearby.map((ride) => ride.originCoordinates));
+
+    const matches: MatchingRide[] = [];
+    nearby.forEach((ride, index) => {
+        const match = matchRide(ride, driver, pickups![index], options);
+        if (match) matches.push(match);
+    });
+    return matches;
+}
+
+// The drivers a ride fits, quickest pickup first (match score breaks ties)
+export async function rankDriversForRide(
+    ride: Ride, drivers: DriverMatchProfile[], options: MatchOptions = {}
+): Promise<DriverCandidate[]> {
+    const nearby = drivers.filter((driver) => withinStraightLineRadius(ride, driver));
+    if (nearby.length === 0) return [];
+
+    const pickups = await getRouteMatrix(nearby.map((driver) => driver.location), [ride.originCoordinates]);
+
+    const candidates: DriverCandidate[] = [];
+    nearby.forEach((driver, index) => {
+        const match = matchRide(ride, driver, pickups[index]![0], options);
+        if (match) candidates.push({ driverId: driver.driverId, match });
+    });
+
+    return candidates.sort((a, b) =>
+        a.match.pickupEtaSeconds - b.match.pickupEtaSeconds || b.match.matchScore - a.match.matchScore
+    );
+}
+
+export function sortMatches(matches: MatchingRide[], sortBy: MatchSort): MatchingRide[] {
+    switch (sortBy) {
+        case 'distance':
+            return matches.sort((a, b) => a.distanceToPickup - b.distanceToPickup);
+        case 'price':
+            return matches.sort((a, b) => b.ridePrice.amount - a.ridePrice.amount);
+        case 'score':
+        default:
+            return matches.sort((a, b) => b.matchScore - a.matchScore);
+    }
+}
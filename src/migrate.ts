@@ -0,0 +1,51 @@
+import sql from './db';
+import { getMigrationStatus, migrateDown, migrateUp } from './migrations';
+
+// Schema migrations from the command line:
+//   bun run migrate              apply pending migrations
+//   bun run migrate:status       list applied / pending migrations
+//   bun run migrate:rollback [n] revert the last n migrations (default 1)
+const [command = 'up', arg] = Bun.argv.slice(2);
+
+try {
+    switch (command) {
+        case 'up': {
+            const applied = await migrateUp(sql);
+            console.log(applied.length > 0 ? `✅ Applied ${applied.length} migration(s)` : '✅ Nothing to migrate');
+            break;
+        }
+        case 'status': {
+            const status = await getMigrationStatus(sql);
+            const modified = new Set(status.modified.map((m) => m.version));
+            const missing = new Set(status.missing.map((m) => m.version));
+
+            for (const migration of status.applied) {
+                const flag = modified.has(migration.version) ? ' ❗ modified since applied'
+                    : missing.has(migration.version) ? ' ❗ file missing' : '';
+                console.log(`  applied  ${migration.version}_${migration.name} (${new Date(migration.appliedAt).toISOString()})${flag}`);
+            }
+            for (const migration of status.pending) {
+                console.log(`  pending  ${migration.version}_${migration.name}`);
+            }
+            console.log(`${status.applied.length} applied, ${status.pending.length} pending`);
+            break;
+        }
+        case 'rollback': {
+            const steps = arg ? parseInt(arg) : 1;
+            if (!Number.isInteger(steps) || steps < 1) {
+                throw new Error('Rollback steps must be a positive integer');
+            }
+            const reverted = await migrateDown(sql, steps);
+            console.log(`✅ Reverted ${reverted.length} migration(s)`);
+            break;
+        }
+        default:
+            console.error('Usage: bun run src/migrate.ts <up|status|rollback [steps]>');
+            process.exit(1);
+    }
+} catch (error: any) {
+    console.error(`❌ ${error?.message || error}`);
+    process.exit(1);
+}
+
+process.exit(0);
@@ -0,0 +1,220 @@
+import { createHash } from 'node:crypto';
+import { readdir } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import type { Sql } from 'postgres';
+
+// Numbered SQL migrations in /migrations:
+//   0005_add_something.up.sql    applied by `bun run migrate`
+//   0005_add_something.down.sql  applied by `bun run migrate:rollback`
+// Applied migrations are recorded in schema_migrations with a checksum of the
+// up file, so editing a migration after it has run is caught instead of ignored
+
+export const MIGRATIONS_DIR = fileURLToPath(new URL('../migrations/', import.meta.url));
+
+const MIGRATION_FILE = /^(\d+)_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+// Serializes runners across instances starting at the same time
+const MIGRATION_LOCK_ID = 4_240_001;
+
+export interface Migration {
+    version: number;
+    name: string;
+    up: string;
+    down?: string;
+    checksum: string;
+}
+
+export interface AppliedMigration {
+    version: number;
+    name: string;
+    checksum: string;
+    appliedAt: string;
+}
+
+export interface MigrationStatus {
+    applied: AppliedMigration[];
+    pending: Migration[];
+    // Applied migrations whose file changed since, or no longer exists
+    modified: AppliedMigration[];
+    missing: AppliedMigration[];
+}
+
+export class MigrationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MigrationError';
+    }
+}
+
+function checksum(contents: string): string {
+    return createHash('sha256').update(contents).digest('hex');
+}
+
+export async function loadMigrations(dir: string = MIGRATIONS_DIR): Promise<Migration[]> {
+    const files = (await readdir(dir)).filter((file) => file.endsWith('.sql')).sort();
+    const byVersion = new Map<number, { name: string; up?: string; down?: string }>();
+
+    for (const file of files) {
+        const match = MIGRATION_FILE.exec(file);
+        if (!match) {
+            throw new MigrationError(`Unexpected migration file name '${file}', expected NNNN_name.up.sql or NNNN_name.down.sql`);
+        }
+
+        const [, versionText, name, direction] = match;
+        const version = parseInt(versionText!);
+        const entry = byVersion.get(version) ?? { name: name! };
+
+        if (entry.name !== name) {
+            throw new MigrationError(`Migration ${version} is used by both '${entry.name}' and '${name}'`);
+        }
+
+        entry[direction as 'up' | 'down'] = await Bun.file(`${dir}/${file}`).text();
+        byVersion.set(version, entry);
+    }
+
+    return [...byVersion.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([version, entry]) => {
+            if (entry.up === undefined) {
+                throw new MigrationError(`Migration ${version}_${entry.name} has no .up.sql file`);
+            }
+            return { version, name: entry.name, up: entry.up, down: entry.down, checksum: checksum(entry.up) };
+        });
+}
+
+async function ensureMigrationsTable(sql: Sql) {
+    await sql`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            checksum TEXT NOT NULL,
+            applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+        )
+    `;
+}
+
+async function loadApplied(sql: Sql): Promise<AppliedMigration[]> {
+    const rows = await sql`
+        SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version
+    `;
+    return rows.map((row: any) => ({
+        version: row.version,
+        name: row.name,
+        checksum: row.checksum,
+        appliedAt: row.applied_at,
+    }));
+}
+
+export async function getMigrationStatus(sql: Sql, migrations?: Migration[]): Promise<MigrationStatus> {
+    const available = migrations ?? await loadMigrations();
+    await ensureMigrationsTable(sql);
+    const applied = await loadApplied(sql);
+
+    const appliedVersions = new Set(applied.map((migration) => migration.version));
+    const byVersion = new Map(available.map((migration) => [migration.version, migration]));
+
+    return {
+        applied,
+        pending: available.filter((migration) => !appliedVersions.has(migration.version)),
+        modified: applied.filter((migration) => {
+            const file = byVersion.get(migration.version);
+            return file !== undefined && file.checksum !== migration.checksum;
+        }),
+        missing: applied.filter((migration) => !byVersion.has(migration.version)),
+    };
+}
+
+// Refuse to touch a database whose history no longer matches the files
+function assertIntact(status: MigrationStatus) {
+    if (status.modified.length > 0) {
+        const names = status.modified.map((m) => `${m.version}_${m.name}`).join(', ');
+        throw new MigrationError(`Applied migrations were modified after running (checksum mismatch): ${names}`);
+    }
+}
+
+// Apply all pending migrations in order, each in its own transaction
+// Returns the migrations that were applied
+export async function migrateUp(sql: Sql, migrations?: Migration[]): Promise<Migration[]> {
+    const status = await getMigrationStatus(sql, migrations);
+    assertIntact(status);
+
+    const applied: Migration[] = [];
+
+    for (const migration of status.pending) {
+        const ran = await sql.begin(async (tx) => {
+            await tx`SELECT pg_advisory_xact_lock(${MIGRATION_LOCK_ID})`;
+
+            // Another instance may have applied it while we waited for the lock
+            const existing = await tx`SELECT 1 FROM schema_migrations WHERE version = ${migration.version}`;
+            if (existing.length > 0) return false;
+
+            await tx.unsafe(migration.up).simple();
+            await tx`
+                INSERT INTO schema_migrations (version, name, checksum, applied_at)
+                VALUES (${migration.version}, ${migration.name}, ${migration.checksum}, ${new Date().toISOString()})
+            `;
+            return true;
+        });
+
+        if (ran) {
+            console.log(`⬆️ Applied migration ${migration.version}_${migration.name}`);
+            applied.push(migration);
+        }
+    }
+
+    return applied;
+}
+
+// Revert the most recently applied migrations using their .down.sql files
+// Returns the migrations that were reverted
+export async function migrateDown(sql: Sql, steps: number = 1, migrations?: Migration[]): Promise<AppliedMigration[]> {
+    const available = migrations ?? await loadMigrations();
+    const status = await getMigrationStatus(sql, available);
+    assertIntact(status);
+
+    const byVersion = new Map(available.map((migration) => [migration.version, migration]));
+    const targets = status.applied.slice(-steps).reverse();
+    const reverted: AppliedMigration[] = [];
+
+    for (const target of targets) {
+        const migration = byVersion.get(target.version);
+        if (!migration?.down) {
+            throw new MigrationError(`Migration ${target.version}_${target.name} has no .down.sql file, cannot roll back`);
+        }
+
+        await sql.begin(async (tx) => {
+            await tx`SELECT pg_advisory_xact_lock(${MIGRATION_LOCK_ID})`;
+            await tx.unsafe(migration.down!).simple();
+            await tx`DELETE FROM schema_migrations WHERE version = ${target.version}`;
+        });
+
+        console.log(`⬇️ Reverted migration ${target.version}_${target.name}`);
+        reverted.push(target);
+    }
+
+    return reverted;
+}
+
+// Startup check: serve only on an up-to-date schema
+// With autoApply (AUTO_MIGRATE=true) pending migrations are applied instead of refusing
+export async function ensureSchemaUpToDate(sql: Sql, { autoApply }: { autoApply: boolean }) {
+    const status = await getMigrationStatus(sql);
+    assertIntact(status);
+
+    if (status.pending.length === 0) {
+        console.log(`✅ Database schema is up to date (${status.applied.length} migrations)`);
+        return;
+    }
+
+    const names = status.pending.map((m) => `${m.version}_${m.name}`).join(', ');
+
+    if (!autoApply) {
+        throw new MigrationError(
+            `Database has ${status.pending.length} pending migration(s): ${names}. ` +
+            'Run `bun run migrate` or start with AUTO_MIGRATE=true'
+        );
+    }
+
+    console.log(`⏳ Applying ${status.pending.length} pending migration(s): ${names}`);
+    await migrateUp(sql);
+}
@@ -0,0 +1,21 @@
+import type { Money } from './types';
+
+// Money is stored and compared as integer minor units (cents for USD) with an ISO 4217 code,
+// so no float parsing or rounding happens in business logic. Major units (e.g. 12.50) are only
+// used for human-friendly configuration such as FARE_RATES
+
+// Currency of fares and of new drivers' prices
+export const DEFAULT_CURRENCY = (Bun.env.CURRENCY || 'USD').toUpperCase();
+
+// Digits after the decimal point: 2 for USD and EUR, 0 for JPY, 3 for KWD
+export function minorUnitDigits(currency: string): number {
+    return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+export function fromMajorUnits(major: number, currency: string = DEFAULT_CURRENCY): Money {
+    return { amount: Math.round(major * 10 ** minorUnitDigits(currency)), currency };
+}
+
+export function isSupportedCurrency(currency: string): boolean {
+    return Intl.supportedValuesOf('currency').includes(currency);
+}
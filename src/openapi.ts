@@ -0,0 +1,307 @@
+import { swagger } from '@elysiajs/swagger';
+import { t, type Static, type TSchema } from 'elysia';
+import type {
+    Caller, Coordinates, CounterOffer, CounterOfferStatus, DispatchAttempt, DispatchAttemptStatus, DispatchMode,
+    DriverDispatchStats, DriverLocationAnomalies, Money, Driver, DriverLocation, DriverMatchingPreferences,
+    DriverPresence, FullDriver, LocationAnomaly, LocationAnomalyKind, Ride, RideEvent, RideEventActorType,
+    RideEventType, RideRoute, RideTimelineDurations, RoutePoint, User,
+} from './types';
+import {
+    CoordinatesSchema, DriverAvailabilitySchema, DriverStatusSchema, literalUnion, MoneySchema, RideStatusSchema,
+} from './schemas';
+import { RIDE_STATUSES } from './rideLifecycle';
+
+// Response models mirroring the interfaces in types.ts
+// ModelsMatchTypes at the bottom stops compiling when one of them drifts
+
+const Timestamp = t.String({ format: 'date-time' });
+
+export const UserModel = t.Object({
+    id: t.String(),
+    email: t.String(),
+    username: t.String(),
+    walletAddress: t.Optional(t.String()),
+    walletVerifiedAt: t.Optional(Timestamp),
+    isDriver: t.Optional(t.Boolean()),
+    driverId: t.Optional(t.String()),
+    createdAt: Timestamp,
+    updatedAt: Timestamp,
+});
+
+export const RideModel = t.Object({
+    id: t.String(),
+    userId: t.String(),
+    userEmail: t.String(),
+    walletAddress: t.String(),
+    originCoordinates: CoordinatesSchema,
+    destinationCoordinates: CoordinatesSchema,
+    originAddress: t.String(),
+    destinationAddress: t.String(),
+    fare: t.Optional(MoneySchema),
+    distanceKm: t.Optional(t.Number()),
+    passengerCount: t.Optional(t.Integer()),
+    requiredVehicleType: t.Optional(t.Integer()),
+    scheduledTime: t.Optional(Timestamp),
+    dispatchedAt: t.Optional(Timestamp),
+    notes: t.Optional(t.String()),
+    dispatchMode: literalUnion<DispatchMode>(['broadcast', 'auto']),
+    status: RideStatusSchema,
+    cancellationReason: t.Optional(t.String()),
+    assignedDriverId: t.Optional(t.String()),
+    driverAcceptedAt: t.Optional(Timestamp),
+    driverUnresponsiveSince: t.Optional(Timestamp),
+    createdAt: Timestamp,
+    updatedAt: Timestamp,
+});
+
+export const CounterOfferModel = t.Object({
+    id: t.String(),
+    rideId: t.String(),
+    driverId: t.String(),
+    price: MoneySchema,
+    message: t.Optional(t.String()),
+    status: literalUnion<CounterOfferStatus>(['pending', 'accepted', 'withdrawn', 'expired']),
+    expiresAt: Timestamp,
+    createdAt: Timestamp,
+    updatedAt: Timestamp,
+});
+
+export const DispatchAttemptModel = t.Object({
+    id: t.String(),
+    rideId: t.String(),
+    driverId: t.String(),
+    rank: t.Integer(),
+    distanceToPickupKm: t.Number(),
+    matchScore: t.Number(),
+    status: literalUnion<DispatchAttemptStatus>(['offered', 'accepted', 'declined', 'timed_out', 'cancelled']),
+    offeredAt: Timestamp,
+    expiresAt: Timestamp,
+    respondedAt: t.Optional(Timestamp),
+});
+
+export const DriverDispatchStatsModel = t.Object({
+    offered: t.Integer(),
+    accepted: t.Integer(),
+    declined: t.Integer(),
+    timedOut: t.Integer(),
+    acceptanceRate: t.Union([t.Number(), t.Null()]),
+});
+
+export const RideEventModel = t.Object({
+    id: t.String(),
+    rideId: t.String(),
+    type: literalUnion<RideEventType>([
+        'status_changed', 'driver_assigned', 'ride_started', 'ride_completed', 'ride_dispatched', 'reminder_sent',
+        'driver_unresponsive', 'driver_reconnected',
+    ]),
+    actorType: literalUnion<RideEventActorType>(['rider', 'driver', 'admin', 'system']),
+    actorId: t.Optional(t.String()),
+    previousStatus: t.Optional(RideStatusSchema),
+    nextStatus: t.Optional(RideStatusSchema),
+    driverId: t.Optional(t.String()),
+    driverLocation: t.Optional(CoordinatesSchema),
+    metadata: t.Optional(t.Record(t.String(), t.Unknown())),
+    createdAt: Timestamp,
+});
+
+const NullableSeconds = t.Union([t.Number(), t.Null()]);
+
+export const RideTimelineDurationsModel = t.Object({
+    waitSeconds: NullableSeconds,
+    pickupEtaSeconds: NullableSeconds,
+    actualPickupSeconds: NullableSeconds,
+    pickupEtaErrorSeconds: NullableSeconds,
+    tripSeconds: NullableSeconds,
+    totalSeconds: NullableSeconds,
+});
+
+export const DriverMatchingPreferencesModel = t.Object({
+    pricePerKm: MoneySchema,
+    minPricePerRide: MoneySchema,
+    maxPickupRadiusKm: t.Number(),
+    vehicleType: t.Integer(),
+    maxPassengers: t.Integer(),
+});
+
+export const FullDriverModel = t.Composite([
+    t.Object({
+        id: t.String(),
+        fullName: t.String(),
+        email: t.String(),
+        phoneNumber: t.String(),
+        address: t.String(),
+        licenseNumber: t.String(),
+        vehicleModel: t.String(),
+        vehicleYear: t.String(),
+        vehiclePlate: t.String(),
+        motivation: t.Optional(t.String()),
+        status: DriverStatusSchema,
+        availability: DriverAvailabilitySchema,
+        currentRideId: t.Optional(t.String()),
+        lastLocationUpdate: t.Optional(Timestamp),
+        latitude: t.Optional(t.Number()),
+        longitude: t.Optional(t.Number()),
+        applicationDate: Timestamp,
+        approvalDate: t.Optional(Timestamp),
+        rejectionReason: t.Optional(t.String()),
+        createdAt: Timestamp,
+        updatedAt: Timestamp,
+        username: t.Optional(t.String()),
+        walletAddress: t.Optional(t.String()),
+        walletVerifiedAt: t.Optional(Timestamp),
+        isDriver: t.Optional(t.Boolean()),
+    }),
+    DriverMatchingPreferencesModel,
+]);
+
+export const DriverModel = t.Object({
+    id: t.String(),
+    email: t.String(),
+    username: t.String(),
+    walletAddress: t.Optional(t.String()),
+    isDriver: t.Boolean(),
+    createdAt: Timestamp,
+    updatedAt: Timestamp,
+});
+
+export const DriverPresenceModel = t.Object({
+    driverId: t.String(),
+    availability: DriverAvailabilitySchema,
+    lastHeartbeatAt: t.Optional(Timestamp),
+    timedOutAt: t.Optional(Timestamp),
+});
+
+export const DriverLocationModel = t.Object({
+    driverId: t.String(),
+    latitude: t.Number(),
+    longitude: t.Number(),
+    heading: t.Optional(t.Number()),
+    speed: t.Optional(t.Number()),
+    accuracy: t.Optional(t.Number()),
+    timestamp: Timestamp,
+});
+
+export const LocationAnomalyModel = t.Object({
+    id: t.String(),
+    driverId: t.String(),
+    kinds: t.Array(literalUnion<LocationAnomalyKind>([
+        'low_accuracy', 'out_of_order', 'future_timestamp', 'impossible_speed', 'outside_service_area',
+    ])),
+    latitude: t.Number(),
+    longitude: t.Number(),
+    accuracy: t.Optional(t.Number()),
+    reportedAt: t.Optional(Timestamp),
+    distanceKm: t.Optional(t.Number()),
+    impliedSpeedKmh: t.Optional(t.Number()),
+    scoreAdded: t.Number(),
+    detectedAt: Timestamp,
+});
+
+export const DriverLocationAnomaliesModel = t.Object({
+    driverId: t.String(),
+    score: t.Number(),
+    excludedFromMatching: t.Boolean(),
+    anomalies: t.Array(LocationAnomalyModel),
+});
+
+export const RoutePointModel = t.Object({
+    latitude: t.Number(),
+    longitude: t.Number(),
+    heading: t.Optional(t.Number()),
+    speed: t.Optional(t.Number()),
+    accuracy: t.Optional(t.Number()),
+    recordedAt: Timestamp,
+});
+
+export const RideRouteModel = t.Object({
+    rideId: t.String(),
+    points: t.Array(RoutePointModel),
+    polyline: t.String(),
+    distanceKm: t.Number(),
+});
+
+export const CallerModel = t.Union([
+    t.Object({ role: t.Literal('rider'), id: t.String(), user: UserModel }),
+    t.Object({ role: t.Literal('driver'), id: t.String(), driver: FullDriverModel }),
+    t.Object({ role: t.Literal('admin'), id: t.String() }),
+]);
+
+export const MessageModel = t.Object({
+    success: t.Boolean(),
+    message: t.String(),
+});
+
+export const ErrorModel = t.Object({
+    error: t.Object({
+        code: literalUnion([
+            'BAD_REQUEST', 'VALIDATION_FAILED', 'UNAUTHORIZED', 'FORBIDDEN', 'NOT_FOUND', 'CONFLICT', 'INTERNAL_ERROR',
+        ]),
+        message: t.String(),
+        details: t.Optional(t.Unknown()),
+        requestId: t.String(),
+    }),
+});
+
+// Documents the success body of a route (without validating it at runtime) plus the error envelope
+//   .get('/:id', handler, { detail: responds(t.Object({ ride: RideModel })) })
+export function responds(schema: TSchema, description = 'Success') {
+    return {
+        responses: {
+            200: { description, content: { 'application/json': { schema } } },
+            default: { description: 'Error', content: { 'application/json': { schema: ErrorModel } } },
+        },
+    } as any;
+}
+
+// Serves the UI at /docs and the OpenAPI 3 spec at /docs/json
+export const docs = swagger({
+    path: '/docs',
+    provider: 'swagger-ui',
+    exclude: ['/test-db', '/api/debug', '/ws'],
+    documentation: {
+        info: {
+            title: 'Pull-Up API',
+            version: '1.0.0',
+            description: `Ride statuses: ${RIDE_STATUSES.join(', ')}. Errors use the envelope described by the Error schema.`,
+        },
+        tags: [
+            { name: 'Auth', description: 'Session tokens and Sign-In With Ethereum' },
+            { name: 'Users', description: 'Rider accounts' },
+            { name: 'Drivers', description: 'Driver applications, availability, location and preferences' },
+            { name: 'Rides', description: 'Ride requests, fare quotes, lifecycle and matching' },
+            { name: 'Pricing', description: 'Surge multipliers and the demand/supply heatmap' },
+            { name: 'System', description: 'Health checks' },
+        ],
+        components: {
+            securitySchemes: {
+                bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+            },
+        },
+        security: [{ bearerAuth: [] }],
+    },
+});
+
+type Mirrors<S extends TSchema, T> = [Static<S>] extends [T] ? ([T] extends [Static<S>] ? true : false) : false;
+type Assert<T extends true> = T;
+
+export type ModelsMatchTypes = [
+    Assert<Mirrors<typeof CoordinatesSchema, Coordinates>>,
+    Assert<Mirrors<typeof MoneySchema, Money>>,
+    Assert<Mirrors<typeof UserModel, User>>,
+    Assert<Mirrors<typeof RideModel, Ride>>,
+    Assert<Mirrors<typeof CounterOfferModel, CounterOffer>>,
+    Assert<Mirrors<typeof DispatchAttemptModel, DispatchAttempt>>,
+    Assert<Mirrors<typeof DriverDispatchStatsModel, DriverDispatchStats>>,
+    Assert<Mirrors<typeof RideEventModel, RideEvent>>,
+    Assert<Mirrors<typeof RideTimelineDurationsModel, RideTimelineDurations>>,
+    Assert<Mirrors<typeof DriverMatchingPreferencesModel, DriverMatchingPreferences>>,
+    Assert<Mirrors<typeof FullDriverModel, FullDriver>>,
+    Assert<Mirrors<typeof DriverModel, Driver>>,
+    Assert<Mirrors<typeof DriverPresenceModel, DriverPresence>>,
+    Assert<Mirrors<typeof DriverLocationModel, DriverLocation>>,
+    Assert<Mirrors<typeof LocationAnomalyModel, LocationAnomaly>>,
+    Assert<Mirrors<typeof DriverLocationAnomaliesModel, DriverLocationAnomalies>>,
+    Assert<Mirrors<typeof RoutePointModel, RoutePoint>>,
+    Assert<Mirrors<typeof RideRouteModel, RideRoute>>,
+    Assert<Mirrors<typeof CallerModel, Caller>>,
+];
@@ -0,0 +1,73 @@
+import type { Coordinates } from './types';
+import { calculateDistanceKm, encodePolyline } from './geo';
+
+// Local stand-in for an OSRM server, answering the /route and /table requests routing.ts makes:
+//   bun run routing:stub [port]   (default 5000, then ROUTING_PROVIDER=osrm OSRM_URL=http://localhost:5000)
+// Roads are faked as the straight line stretched by OSRM_STUB_DETOUR_FACTOR at OSRM_STUB_SPEED_KMH
+
+const port = Number(Bun.argv[2]) || 5000;
+const DETOUR_FACTOR = parseFloat(Bun.env.OSRM_STUB_DETOUR_FACTOR || '1.3');
+const SPEED_KMH = parseFloat(Bun.env.OSRM_STUB_SPEED_KMH || '30');
+
+function parseCoordinates(text: string): Coordinates[] | null {
+    const points = text.split(';').map((pair) => {
+        const [longitude, latitude] = pair.split(',').map(Number);
+        return { latitude: latitude!, longitude: longitude! };
+    });
+    return points.every((point) => Number.isFinite(point.latitude) && Number.isFinite(point.longitude)) ? points : null;
+}
+
+function leg(from: Coordinates, to: Coordinates) {
+    const distance = calculateDistanceKm(from.latitude, from.longitude, to.latitude, to.longitude) * 1000 * DETOUR_FACTOR;
+    return { distance, duration: distance / 1000 / SPEED_KMH * 3600 };
+}
+
+function indexes(param: string | null, count: number): number[] {
+    return param ? param.split(';').map(Number) : Array.from({ length: count }, (_, index) => index);
+}
+
+const invalid = (message: string) => Response.json({ code: 'InvalidQuery', message }, { status: 400 });
+
+Bun.serve({
+    port,
+    fetch(request) {
+        const url = new URL(request.url);
+        const [, service, version, , coordinates] = url.pathname.split('/');
+        const points = coordinates ? parseCoordinates(decodeURIComponent(coordinates)) : null;
+
+        if (version !== 'v1' || !points || points.length < 2) {
+            return invalid('Expected /{service}/v1/{profile}/{lng},{lat};{lng},{lat}...');
+        }
+
+        if (service === 'route') {
+            const legs = points.slice(1).map((point, index) => leg(points[index]!, point));
+            return Response.json({
+                code: 'Ok',
+                routes: [{
+                    distance: legs.reduce((sum, entry) => sum + entry.distance, 0),
+                    duration: legs.reduce((sum, entry) => sum + entry.duration, 0),
+                    geometry: encodePolyline(points),
+                }],
+            });
+        }
+
+        if (service === 'table') {
+            const sources = indexes(url.searchParams.get('sources'), points.length);
+            const destinations = indexes(url.searchParams.get('destinations'), points.length);
+            if ([...sources, ...destinations].some((index) => !points[index])) {
+                return invalid('Source or destination index out of range');
+            }
+
+            const legs = sources.map((i) => destinations.map((j) => leg(points[i]!, points[j]!)));
+            return Response.json({
+                code: 'Ok',
+                distances: legs.map((row) => row.map((entry) => entry.distance)),
+                durations: legs.map((row) => row.map((entry) => entry.duration)),
+            });
+        }
+
+        return invalid(`Unsupported service '${service}'`);
+    },
+});
+
+console.log(`🗺️ OSRM stand-in listening on http://localhost:${port} (detour x${DETOUR_FACTOR}, ${SPEED_KMH} km/h)`);
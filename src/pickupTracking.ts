@@ -0,0 +1,135 @@
+import type { Sql } from 'postgres';
+import type { DriverLocation, Ride, RideStatus } from './types';
+import { mapRowToRide } from './types';
+import { recordRideEvent } from './rideEvents';
+import { calculateDistanceKm } from './geo';
+import { getRoute } from './routing';
+import { channelName, publish } from './realtime';
+
+// Pickup tracking: every location update from a driver on their way to a pickup
+//   - moves the ride to approaching_pickup within APPROACHING_METERS of the origin, and to
+//     driver_arrived within ARRIVED_METERS (straight-line geofences, readings less precise
+//     than MAX_ACCURACY_METERS are ignored)
+//   - pushes { type: 'pickupEta', eta } to ride:<rideId>, along the road and at most every
+//     ETA_INTERVAL_SECONDS unless the status changed
+// Drivers and admins can still set both statuses by hand with PUT /api/rides/:id/status
+
+const APPROACHING_METERS = parseFloat(Bun.env.PICKUP_APPROACHING_METERS || '500');
+const ARRIVED_METERS = parseFloat(Bun.env.PICKUP_ARRIVED_METERS || '50');
+const MAX_ACCURACY_METERS = parseFloat(Bun.env.PICKUP_MAX_ACCURACY_METERS || '100');
+const ETA_INTERVAL_SECONDS = parseInt(Bun.env.PICKUP_ETA_INTERVAL_SECONDS || '10');
+
+// The driver is on the way to the pickup
+const TRACKED_STATUSES: RideStatus[] = ['accepted', 'driver_assigned', 'approaching_pickup'];
+
+// When each tracked ride's ETA was last pushed from this instance
+const lastEtaAt = new Map<string, number>();
+// Rides with a location update being processed; updates arriving meanwhile are skipped
+const inFlight = new Set<string>();
+
+// Move the ride on if nobody changed its status in the meantime, null otherwise
+async function advance(sql: Sql, ride: Ride, next: RideStatus, location: DriverLocation, distanceMeters: number): Promise<Ride | null> {
+    const now = new Date().toISOString();
+
+    const updated = await sql.begin(async (tx) => {
+        const rows = await tx`
+            UPDATE rides SET status = ${next}, updated_at = ${now}
+            WHERE id = ${ride.id} AND status = ${ride.status}
+            RETURNING *
+        `;
+        if (rows.length === 0) return null;
+
+        await recordRideEvent(tx, {
+            rideId: ride.id,
+            type: 'status_changed',
+            actorType: 'system',
+            previousStatus: ride.status,
+            nextStatus: next,
+            driverId: location.driverId,
+            driverLat: location.latitude,
+            driverLng: location.longitude,
+            metadata: { reason: 'geofence', distanceMeters: Math.round(distanceMeters) },
+        });
+
+        return mapRowToRide(rows[0]!);
+    });
+
+    if (updated) {
+        publish(channelName('ride', updated.id), { type: 'rideUpdated', ride: updated });
+    }
+    return updated;
+}
+
+async function publishEta(ride: Ride, location: DriverLocation) {
+    const arrived = ride.status === 'driver_arrived';
+    const route = arrived ? null : await getRoute(location, ride.originCoordinates);
+
+    publish(channelName('ride', ride.id), {
+        type: 'pickupEta',
+        eta: {
+            rideId: ride.id,
+            driverId: location.driverId,
+            status: ride.status,
+            distanceKm: route?.distanceKm ?? 0,
+            etaSeconds: route?.durationSeconds ?? 0,
+            calculatedAt: new Date().toISOString(),
+        },
+    });
+}
+
+async function track(sql: Sql, rideId: string, location: DriverLocation) {
+    const rows = await sql`
+        SELECT * FROM rides WHERE id = ${rideId}
+    `;
+    const row = rows[0];
+    if (!row || row.assigned_driver_id !== location.driverId || !TRACKED_STATUSES.includes(row.status)) {
+        lastEtaAt.delete(rideId);
+        return;
+    }
+
+    let ride = mapRowToRide(row);
+    const distanceMeters = 1000 * calculateDistanceKm(
+        location.latitude, location.longitude,
+        ride.originCoordinates.latitude, ride.originCoordinates.longitude
+    );
+
+    let statusChanged = false;
+    if (location.accuracy === undefined || location.accuracy <= MAX_ACCURACY_METERS) {
+        // A driver who shows up inside both geofences at once goes through both changes
+        if (ride.status !== 'approaching_pickup' && distanceMeters <= APPROACHING_METERS) {
+            const updated = await advance(sql, ride, 'approaching_pickup', location, distanceMeters);
+            if (!updated) return;
+            ride = updated;
+            statusChanged = true;
+        }
+
+        if (ride.status === 'approaching_pickup' && distanceMeters <= ARRIVED_METERS) {
+            const updated = await advance(sql, ride, 'driver_arrived', location, distanceMeters);
+            if (!updated) return;
+            ride = updated;
+            statusChanged = true;
+        }
+    }
+
+    const now = Date.now();
+    if (!statusChanged && now - (lastEtaAt.get(rideId) ?? 0) < ETA_INTERVAL_SECONDS * 1000) return;
+
+    if (ride.status === 'driver_arrived') {
+        lastEtaAt.delete(rideId);
+    } else {
+        lastEtaAt.set(rideId, now);
+    }
+    await publishEta(ride, location);
+}
+
+// Called with every location a driver on a ride reports
+export async function trackPickup(sql: Sql, rideId: string, location: DriverLocation): Promise<void> {
+    if (inFlight.has(rideId)) return;
+    inFlight.add(rideId);
+
+    try {
+        await track(sql, rideId, location);
+    } finally {
+        inFlight.delete(rideId);
+    }
+}
@@ -0,0 +1,45 @@
+import { Elysia, t } from 'elysia';
+import type { Sql } from 'postgres';
+import { authPlugin } from './auth';
+import { getSurgeAt, getSurgeSnapshot } from './surge';
+import { Latitude, Longitude } from './schemas';
+import { responds } from './openapi';
+
+const SurgeZoneModel = t.Object({
+    zone: t.String({ description: 'Geohash of the zone' }),
+    bounds: t.Object({ south: t.Number(), west: t.Number(), north: t.Number(), east: t.Number() }),
+    demand: t.Integer(),
+    supply: t.Integer(),
+    ratio: t.Number(),
+    multiplier: t.Number(),
+});
+
+export const pricingRoutes = new Elysia({ prefix: '/api/pricing', detail: { tags: ['Pricing'] } })
+    .use(authPlugin)
+
+    // Current surge multiplier at a point (the one fare quotes picked up there use)
+    .get('/surge', async ({ query, db }: { query: { lat: number; lng: number }; db: Sql }) => {
+        const surge = await getSurgeAt(db, { latitude: query.lat, longitude: query.lng });
+        return { surge };
+    }, {
+        roles: ['rider', 'driver', 'admin'],
+        query: t.Object({ lat: Latitude, lng: Longitude }),
+        detail: responds(t.Object({ surge: SurgeZoneModel })),
+    })
+
+    // Demand, supply and surge of every active zone, for the admin dashboard heatmap
+    .get('/heatmap', async ({ db }: { db: Sql }) => {
+        const snapshot = await getSurgeSnapshot(db);
+        return { heatmap: snapshot };
+    }, {
+        roles: ['admin'],
+        detail: responds(t.Object({
+            heatmap: t.Object({
+                computedAt: t.String({ format: 'date-time' }),
+                windowMinutes: t.Integer(),
+                zonePrecision: t.Integer(),
+                maxMultiplier: t.Number(),
+                zones: t.Array(SurgeZoneModel),
+            }),
+        })),
+    });
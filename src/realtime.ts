@@ -0,0 +1,137 @@
+import type { ApiErrorCode } from './errors';
+import { emitBusEvent, onBusEvent } from './eventBus';
+import type { MatchingRide } from './matching';
+import type { CounterOffer, DriverLocation, DriverPresence, Ride, RideStatus } from './types';
+
+// Channel registry and message protocol for /ws (see ws.ts)
+// Tracks the sockets connected to this process, publish() also reaches the other instances
+//
+// Channels, each authorized when subscribing:
+//   ride:<rideId>      ride updates, counter-offers, the assigned driver's location and pickup ETA (the rider, assigned driver, admins)
+//   driver:<driverId>  the driver's location (the driver, admins)
+//   offers:<driverId>  rides matching the driver's preferences and their counter-offers (the driver, admins)
+
+export const CHANNEL_KINDS = ['ride', 'driver', 'offers'] as const;
+export type ChannelKind = (typeof CHANNEL_KINDS)[number];
+
+// expired and declined only concern the one driver an auto-dispatched ride was offered to
+export type RideOfferWithdrawnReason = 'claimed' | 'cancelled' | 'expired' | 'declined';
+
+// Set on offers of auto-dispatched rides, accept or decline before expiresAt (see dispatch.ts)
+export interface DispatchOffer {
+    attemptId: string;
+    expiresAt: string;
+}
+
+// The assigned driver's way to the pickup, recomputed from their location updates (see pickupTracking.ts)
+export interface PickupEta {
+    rideId: string;
+    driverId: string;
+    status: RideStatus; // After any automatic approaching_pickup / driver_arrived change
+    distanceKm: number; // Along the road
+    etaSeconds: number;
+    calculatedAt: string;
+}
+
+// Server -> client messages published on a channel
+export type ChannelMessage =
+    | { type: 'driverLocation'; location: DriverLocation }
+    | { type: 'rideUpdated'; ride: Ride }
+    | { type: 'rideReminder'; ride: Ride; minutesUntilPickup: number }
+    | { type: 'pickupEta'; eta: PickupEta }
+    | { type: 'rideOffer'; ride: MatchingRide; dispatch?: DispatchOffer }
+    | { type: 'rideOfferWithdrawn'; rideId: string; reason: RideOfferWithdrawnReason }
+    | { type: 'counterOfferUpdated'; offer: CounterOffer };
+
+// Server -> client messages; `id` echoes the id of the client message being answered
+export type ServerMessage =
+    | (ChannelMessage & { channel: string })
+    | { type: 'ack'; id?: string; channel?: string; location?: DriverLocation; presence?: DriverPresence }
+    // Sent to a driver reconnecting after the presence sweeper took them offline (see driverPresence.ts)
+    | { type: 'presenceTimedOut'; presence: DriverPresence }
+    | { type: 'error'; id?: string; code: ApiErrorCode; message: string; details?: unknown };
+
+// Minimal view of a socket (Elysia's ws object satisfies it)
+export interface RealtimeSocket {
+    id: string;
+    send(data: string): unknown;
+}
+
+// Elysia hands every callback a fresh wrapper around the same socket, so sockets are keyed by id
+const channels = new Map<string, Map<string, RealtimeSocket>>();
+const socketChannels = new Map<string, Set<string>>();
+
+export function channelName(kind: ChannelKind, id: string): string {
+    return `${kind}:${id}`;
+}
+
+export function parseChannel(channel: string): { kind: ChannelKind; id: string } | null {
+    const separator = channel.indexOf(':');
+    const kind = channel.slice(0, separator) as ChannelKind;
+    if (separator < 0 || !CHANNEL_KINDS.includes(kind)) return null;
+    return { kind, id: channel.slice(separator + 1) };
+}
+
+export function send(ws: RealtimeSocket, message: ServerMessage) {
+    ws.send(JSON.stringify(message));
+}
+
+export function subscribe(channel: string, ws: RealtimeSocket) {
+    const sockets = channels.get(channel) ?? new Map<string, RealtimeSocket>();
+    sockets.set(ws.id, ws);
+    channels.set(channel, sockets);
+
+    const subscribed = socketChannels.get(ws.id) ?? new Set<string>();
+    subscribed.add(channel);
+    socketChannels.set(ws.id, subscribed);
+}
+
+// Returns false when the socket wasn't subscribed to the channel
+export function unsubscribe(channel: string, ws: RealtimeSocket): boolean {
+    const sockets = channels.get(channel);
+    if (!sockets?.delete(ws.id)) return false;
+
+    if (sockets.size === 0) channels.delete(channel);
+    socketChannels.get(ws.id)?.delete(channel);
+    return true;
+}
+
+export function unsubscribeAll(ws: RealtimeSocket) {
+    for (const channel of socketChannels.get(ws.id) ?? []) {
+        unsubscribe(channel, ws);
+    }
+    socketChannels.delete(ws.id);
+}
+
+export function hasSubscribers(channel: string): boolean {
+    return (channels.get(channel)?.size ?? 0) > 0;
+}
+
+// Ids behind every channel of a kind with at least one subscriber, e.g. drivers listening for offers
+export function subscribedIds(kind: ChannelKind): string[] {
+    const prefix = `${kind}:`;
+    return [...channels.keys()]
+        .filter((channel) => channel.startsWith(prefix))
+        .map((channel) => channel.slice(prefix.length));
+}
+
+// Send to this process's subscribers only
+// Returns the number of sockets the message was sent to
+export function deliver(channel: string, message: ChannelMessage): number {
+    const sockets = channels.get(channel);
+    if (!sockets || sockets.size === 0) return 0;
+
+    const payload = JSON.stringify({ ...message, channel });
+    for (const socket of sockets.values()) {
+        socket.send(payload);
+    }
+    return sockets.size;
+}
+
+// Send to the channel's subscribers on every instance
+export function publish(channel: string, message: ChannelMessage) {
+    deliver(channel, message);
+    emitBusEvent('channelMessage', { channel, message });
+}
+
+onBusEvent('channelMessage', ({ channel, message }) => deliver(channel, message));
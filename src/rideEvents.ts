@@ -0,0 +1,98 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { JSONValue } from 'postgres';
+import type { DbClient } from './db';
+import type { RideEvent, RideEventActorType, RideEventType, RideStatus, RideTimelineDurations } from './types';
+
+export interface RideEventInput {
+    rideId: string;
+    type: RideEventType;
+    actorType: RideEventActorType;
+    actorId?: string | null;
+    previousStatus?: RideStatus | null;
+    nextStatus?: RideStatus | null;
+    driverId?: string | null;
+    driverLat?: number | null;
+    driverLng?: number | null;
+    metadata?: Record<string, JSONValue>;
+}
+
+export function mapRowToRideEvent(row: any): RideEvent {
+    return {
+        id: row.id,
+        rideId: row.ride_id,
+        type: row.event_type,
+        actorType: row.actor_type,
+        actorId: row.actor_id ?? undefined,
+        previousStatus: row.previous_status ?? undefined,
+        nextStatus: row.next_status ?? undefined,
+        driverId: row.driver_id ?? undefined,
+        driverLocation: row.driver_lat != null && row.driver_lng != null
+            ? { latitude: row.driver_lat, longitude: row.driver_lng }
+            : undefined,
+        metadata: row.metadata ?? undefined,
+        createdAt: row.created_at,
+    };
+}
+
+// Append an entry to the ride's event log
+// Pass the transaction handle when the event belongs to a larger change
+export async function recordRideEvent(db: DbClient, event: RideEventInput): Promise<RideEvent> {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    const result = await db`
+        INSERT INTO ride_events (
+            id, ride_id, event_type, actor_type, actor_id,
+            previous_status, next_status,
+            driver_id, driver_lat, driver_lng,
+            metadata, created_at
+        ) VALUES (
+            ${id}, ${event.rideId}, ${event.type}, ${event.actorType}, ${event.actorId ?? null},
+            ${event.previousStatus ?? null}, ${event.nextStatus ?? null},
+            ${event.driverId ?? null}, ${event.driverLat ?? null}, ${event.driverLng ?? null},
+            ${event.metadata ? db.json(event.metadata) : null}, ${now}
+        )
+        RETURNING *
+    `;
+
+    return mapRowToRideEvent(result[0]!);
+}
+
+function secondsBetween(from?: string, to?: string): number | null {
+    if (!from || !to) return null;
+    return Math.round((new Date(to).getTime() - new Date(from).getTime()) / 1000);
+}
+
+// Derive wait / pickup / trip durations from an ordered event list
+export function computeTimelineDurations(rideCreatedAt: string, events: RideEvent[]): RideTimelineDurations {
+    const firstAt = (match: (e: RideEvent) => boolean) => events.find(match)?.createdAt;
+
+    const assignment = events.find(e =>
+        e.type === 'driver_assigned' ||
+        (e.type === 'status_changed' && (e.nextStatus === 'accepted' || e.nextStatus === 'driver_assigned'))
+    );
+    const statusAt = (status: RideStatus) => firstAt(e => e.type === 'status_changed' && e.nextStatus === status);
+
+    const startedAt = statusAt('in_progress') ?? firstAt(e => e.type === 'ride_started');
+    const arrivedAt = statusAt('driver_arrived') ?? startedAt;
+    const completedAt = statusAt('completed') ?? firstAt(e => e.type === 'ride_completed');
+    const endedAt = completedAt ?? statusAt('cancelled');
+
+    // Scheduled rides only start waiting for a driver once they are dispatched
+    const waitingSince = firstAt(e => e.type === 'ride_dispatched') ?? rideCreatedAt;
+
+    const pickupEta = assignment?.metadata?.pickupEtaSeconds;
+    const pickupEtaSeconds = typeof pickupEta === 'number' ? pickupEta : null;
+    const actualPickupSeconds = secondsBetween(assignment?.createdAt, arrivedAt);
+
+    return {
+        waitSeconds: secondsBetween(waitingSince, assignment?.createdAt),
+        pickupEtaSeconds,
+        actualPickupSeconds,
+        pickupEtaErrorSeconds: pickupEtaSeconds !== null && actualPickupSeconds !== null
+            ? actualPickupSeconds - pickupEtaSeconds
+            : null,
+        tripSeconds: secondsBetween(startedAt, completedAt),
+        totalSeconds: secondsBetween(rideCreatedAt, endedAt),
+    };
+}
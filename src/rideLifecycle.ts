@@ -0,0 +1,214 @@
+import type { Sql } from 'postgres';
+import type { CounterOffer, FullDriver, Ride, RideEventActorType, RideStatus } from './types';
+import { mapRowToFullDriver, mapRowToRide } from './types';
+import { recordRideEvent } from './rideEvents';
+import { acceptCounterOffer, closeCounterOffers } from './counterOffers';
+import { acceptDispatchAttempt, closeDispatchAttempts } from './dispatch';
+import { getRoute } from './routing';
+import { conflict, forbidden, notFound } from './errors';
+
+// Allowed ride status transitions (current status -> next statuses)
+// completed and cancelled are terminal
+export const RIDE_STATUS_TRANSITIONS: Record<RideStatus, RideStatus[]> = {
+    pending: ['accepted', 'driver_assigned', 'cancelled'],
+    accepted: ['driver_assigned', 'approaching_pickup', 'cancelled'],
+    driver_assigned: ['approaching_pickup', 'cancelled'],
+    approaching_pickup: ['driver_arrived', 'cancelled'],
+    driver_arrived: ['in_progress', 'cancelled'],
+    in_progress: ['completed'],
+    completed: [],
+    cancelled: [],
+};
+
+export const RIDE_STATUSES = Object.keys(RIDE_STATUS_TRANSITIONS) as RideStatus[];
+
+// Statuses that only make sense once a driver is attached to the ride
+const DRIVER_REQUIRED_STATUSES: RideStatus[] = [
+    'accepted', 'driver_assigned', 'approaching_pickup', 'driver_arrived', 'in_progress', 'completed',
+];
+
+export function isRideStatus(value: unknown): value is RideStatus {
+    return typeof value === 'string' && value in RIDE_STATUS_TRANSITIONS;
+}
+
+export function canTransition(from: RideStatus, to: RideStatus): boolean {
+    return RIDE_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+// Returns a human readable reason when the move is illegal, null otherwise
+export function getTransitionError(
+    from: RideStatus,
+    to: RideStatus,
+    hasAssignedDriver: boolean
+): string | null {
+    if (!canTransition(from, to)) {
+        const allowed = RIDE_STATUS_TRANSITIONS[from] ?? [];
+        return allowed.length > 0
+            ? `Cannot change ride status from '${from}' to '${to}'. Allowed: ${allowed.join(', ')}`
+            : `Cannot change ride status from '${from}': ride is already ${from}`;
+    }
+
+    if (DRIVER_REQUIRED_STATUSES.includes(to) && !hasAssignedDriver) {
+        return `Ride must have an assigned driver before moving to '${to}'`;
+    }
+
+    return null;
+}
+
+export interface ClaimRideInput {
+    rideId: string;
+    driverId: string;
+    status: 'accepted' | 'driver_assigned';
+    actor: { type: RideEventActorType; id: string };
+    counterOfferId?: string; // Claim at the price of this offer from the driver (see counterOffers.ts)
+    dispatchAttemptId?: string; // Accepting the driver's auto-dispatch offer (see dispatch.ts)
+}
+
+export interface ClaimRideResult {
+    ride: Ride;
+    driver: FullDriver;
+    counterOffers: CounterOffer[]; // Offers accepted or withdrawn by the claim, to publish
+    acceptedOffer: CounterOffer | null; // The counter-offer the claim was made at, if any
+}
+
+// Estimated pickup time along the road, null when either position is unknown
+// Looked up before the claim transaction so no rows stay locked while the routing provider answers
+async function estimatePickupSeconds(db: Sql, rideId: string, driverId: string): Promise<number | null> {
+    const rows = await db`
+        SELECT r.origin_lat, r.origin_lng, d.latitude, d.longitude
+        FROM rides r, drivers d
+        WHERE r.id = ${rideId} AND d.id = ${driverId}
+    `;
+
+    const row = rows[0];
+    if (!row || row.latitude == null || row.longitude == null) return null;
+
+    const route = await getRoute(
+        { latitude: row.latitude, longitude: row.longitude },
+        { latitude: row.origin_lat, longitude: row.origin_lng }
+    );
+    return route.durationSeconds;
+}
+
+// Claim a ride for a driver in one transaction
+// The ride and driver rows are locked (always in that order) so concurrent
+// claims serialize: the first one wins and the rest get a 409
+// Open counter-offers on the ride are withdrawn, except the accepted one, and so is its open dispatch attempt
+// Drivers can only claim an auto-dispatched ride through the attempt offered to them
+export async function claimRide(
+    db: Sql,
+    { rideId, driverId, status, actor, counterOfferId, dispatchAttemptId }: ClaimRideInput
+): Promise<ClaimRideResult> {
+    const pickupEtaSeconds = await estimatePickupSeconds(db, rideId, driverId);
+
+    return db.begin(async (tx): Promise<ClaimRideResult> => {
+        const rides = await tx`
+            SELECT * FROM rides WHERE id = ${rideId} FOR UPDATE
+        `;
+
+        if (rides.length === 0) {
+            throw notFound('Ride not found');
+        }
+
+        const ride = rides[0]!;
+
+        if (ride.assigned_driver_id && ride.assigned_driver_id !== driverId) {
+            throw conflict('Ride has already been claimed by another driver');
+        }
+
+        if (!ride.dispatched_at) {
+            throw conflict('Scheduled ride is not open to drivers yet');
+        }
+
+        const transitionError = getTransitionError(ride.status, status, true);
+        if (transitionError) {
+            throw conflict(transitionError);
+        }
+
+        const drivers = await tx`
+            SELECT * FROM drivers WHERE id = ${driverId} FOR UPDATE
+        `;
+
+        if (drivers.length === 0) {
+            throw notFound('Driver not found');
+        }
+
+        const driver = drivers[0]!;
+
+        if (driver.status !== 'approved') {
+            throw forbidden('Only approved drivers can claim rides');
+        }
+
+        // A driver re-confirming their own claim (accepted -> driver_assigned) is already busy with it
+        if (driver.availability !== 'online_free' && driver.current_ride_id !== rideId) {
+            throw conflict('Driver must be online and free to claim a ride');
+        }
+
+        const now = new Date().toISOString();
+
+        const acceptedAttempt = dispatchAttemptId
+            ? await acceptDispatchAttempt(tx, rideId, dispatchAttemptId, driverId)
+            : null;
+        if (ride.dispatch_mode === 'auto' && !acceptedAttempt && actor.type === 'driver') {
+            throw conflict('Ride is being dispatched automatically, wait for it to be offered to you');
+        }
+        await closeDispatchAttempts(tx, rideId);
+
+        const acceptedOffer = counterOfferId
+            ? await acceptCounterOffer(tx, rideId, counterOfferId, driverId)
+            : null;
+        const withdrawnOffers = await closeCounterOffers(tx, rideId);
+
+        const updatedRides = await tx`
+            UPDATE rides
+            SET
+                assigned_driver_id = ${driverId},
+                status = ${status},
+                driver_accepted_at = ${now},
+                ${acceptedOffer ? tx`
+                    fare_amount = ${acceptedOffer.price.amount},
+                    fare_currency = ${acceptedOffer.price.currency},
+                ` : tx``}
+                updated_at = ${now}
+            WHERE id = ${rideId}
+            RETURNING *
+        `;
+
+        const updatedDrivers = await tx`
+            UPDATE drivers SET
+                availability = 'online_busy',
+                current_ride_id = ${rideId},
+                updated_at = ${now}
+            WHERE id = ${driverId}
+            RETURNING *
+        `;
+
+        // The estimated pickup time is kept so the timeline can report ETA accuracy
+        await recordRideEvent(tx, {
+            rideId,
+            type: 'driver_assigned',
+            actorType: actor.type,
+            actorId: actor.id,
+            previousStatus: ride.status,
+            nextStatus: status,
+            driverId,
+            driverLat: driver.latitude,
+            driverLng: driver.longitude,
+            metadata: {
+                pickupEtaSeconds,
+                ...(acceptedOffer && {
+                    counterOfferId: acceptedOffer.id,
+                    previousFare: ride.fare_amount != null ? Number(ride.fare_amount) : null,
+                }),
+                ...(acceptedAttempt && { dispatchAttemptId: acceptedAttempt.id, dispatchRank: acceptedAttempt.rank }),
+            },
+        });
+
+        return {
+            ride: mapRowToRide(updatedRides[0]!),
+            driver: mapRowToFullDriver(updatedDrivers[0]!),
+            counterOffers: acceptedOffer ? [acceptedOffer, ...withdrawnOffers] : withdrawnOffers,
+            acceptedOffer,
+        };
+    });
+}
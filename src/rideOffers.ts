@@ -0,0 +1,136 @@
+import sql from './db';
+import type { DbClient } from './db';
+import type { Ride } from './types';
+import { mapRowToRide } from './types';
+import {
+    matchRidesForDriver, rankDriversForRide, sortMatches, toMatchProfile, type DriverMatchProfile, type MatchingRide,
+} from './matching';
+import {
+    channelName, deliver, hasSubscribers, subscribedIds, type DispatchOffer, type RideOfferWithdrawnReason,
+} from './realtime';
+import { findPendingRidesNear } from './geoQueries';
+import { emitBusEvent, onBusEvent, onBusReconnect } from './eventBus';
+
+// Ride offers pushed to drivers subscribed to their offers:<driverId> channel on /ws
+//   { type: 'rideOffer', ride: MatchingRide, dispatch? }
+//   { type: 'rideOfferWithdrawn', rideId, reason }
+// Broadcast rides go to every matching driver, auto-dispatched ones to the driver dispatch.ts picked
+// Broadcast offers include rides below the driver's minimum price, marked belowMinimum to counter
+// Every instance matches rides against the drivers connected to it, the exported
+// functions relay the triggering event to the other instances (see eventBus.ts)
+
+// Drivers on this instance each pending ride was offered to, so withdrawals only go to them
+const offeredTo = new Map<string, Set<string>>();
+
+function sendOffer(driverId: string, ride: MatchingRide, dispatch?: DispatchOffer) {
+    if (deliver(channelName('offers', driverId), { type: 'rideOffer', ride, ...(dispatch && { dispatch }) }) === 0) return;
+
+    const drivers = offeredTo.get(ride.id) ?? new Set<string>();
+    drivers.add(driverId);
+    offeredTo.set(ride.id, drivers);
+}
+
+async function loadFreeDrivers(db: DbClient, driverIds: string[]) {
+    return db`
+        SELECT * FROM drivers
+        WHERE id IN ${db(driverIds)}
+            AND status = 'approved'
+            AND availability = 'online_free'
+    `;
+}
+
+async function offerRideToLocalDrivers(db: DbClient, ride: Ride): Promise<number> {
+    const driverIds = subscribedIds('offers');
+    if (driverIds.length === 0) return 0;
+
+    const profiles = (await loadFreeDrivers(db, driverIds))
+        .map(toMatchProfile)
+        .filter((profile): profile is DriverMatchProfile => profile !== null);
+
+    const candidates = await rankDriversForRide(ride, profiles, { includeBelowMinimum: true });
+    for (const { driverId, match } of candidates) {
+        sendOffer(driverId, match);
+    }
+
+    return candidates.length;
+}
+
+// Offer a new ride to every subscribed, online and free driver it matches
+// Returns the number of drivers on this instance it was offered to
+export async function offerRideToDrivers(db: DbClient, ride: Ride): Promise<number> {
+    emitBusEvent('rideCreated', { ride });
+    return offerRideToLocalDrivers(db, ride);
+}
+
+// Offer a driver connected to this instance every pending ride that matches them, best first
+// Used when a driver subscribes or becomes free, so they never have to poll
+export async function offerPendingRidesToDriver(db: DbClient, driverId: string): Promise<number> {
+    if (!hasSubscribers(channelName('offers', driverId))) return 0;
+
+    const drivers = await loadFreeDrivers(db, [driverId]);
+    const profile = drivers.length > 0 ? toMatchProfile(drivers[0]!) : null;
+    if (!profile) return 0;
+
+    const pendingRides = await findPendingRidesNear(db, profile.location, profile.maxPickupRadiusKm);
+
+    const matches = await matchRidesForDriver(pendingRides.map(mapRowToRide), profile, { includeBelowMinimum: true });
+
+    for (const match of sortMatches(matches, 'score')) {
+        sendOffer(driverId, match);
+    }
+
+    return matches.length;
+}
+
+// A driver became free: offer them pending rides on whichever instance they're connected to
+export async function offerPendingRidesToAvailableDriver(db: DbClient, driverId: string): Promise<number> {
+    emitBusEvent('driverAvailable', { driverId });
+    return offerPendingRidesToDriver(db, driverId);
+}
+
+// Offer an auto-dispatched ride to the one driver it was dispatched to, wherever they're connected
+export function offerRideToDispatchedDriver(driverId: string, ride: MatchingRide, dispatch: DispatchOffer) {
+    emitBusEvent('rideDispatched', { driverId, ride, dispatch });
+    sendOffer(driverId, ride, dispatch);
+}
+
+function withdrawLocalRideOffer(rideId: string, reason: RideOfferWithdrawnReason, exceptDriverId?: string, onlyDriverId?: string) {
+    const drivers = offeredTo.get(rideId);
+    if (!drivers) return;
+
+    for (const driverId of drivers) {
+        if (driverId === exceptDriverId || (onlyDriverId && driverId !== onlyDriverId)) continue;
+
+        deliver(channelName('offers', driverId), { type: 'rideOfferWithdrawn', rideId, reason });
+        drivers.delete(driverId);
+    }
+
+    if (!onlyDriverId || drivers.size === 0) offeredTo.delete(rideId);
+}
+
+// Tell every driver the ride was offered to that it's no longer available
+// The driver who claimed it is skipped
+export function withdrawRideOffer(rideId: string, reason: RideOfferWithdrawnReason, exceptDriverId?: string) {
+    emitBusEvent('rideOfferWithdrawn', { rideId, reason, exceptDriverId });
+    withdrawLocalRideOffer(rideId, reason, exceptDriverId);
+}
+
+// Take back the offer made to a single driver, when their dispatch attempt expired or they declined
+export function withdrawRideOfferFromDriver(rideId: string, driverId: string, reason: RideOfferWithdrawnReason) {
+    emitBusEvent('rideOfferWithdrawn', { rideId, reason, onlyDriverId: driverId });
+    withdrawLocalRideOffer(rideId, reason, undefined, driverId);
+}
+
+onBusEvent('rideCreated', ({ ride }) => offerRideToLocalDrivers(sql, ride));
+onBusEvent('driverAvailable', ({ driverId }) => offerPendingRidesToDriver(sql, driverId));
+onBusEvent('rideDispatched', ({ driverId, ride, dispatch }) => sendOffer(driverId, ride, dispatch));
+onBusEvent('rideOfferWithdrawn', ({ rideId, reason, exceptDriverId, onlyDriverId }) =>
+    withdrawLocalRideOffer(rideId, reason, exceptDriverId, onlyDriverId));
+
+// Rides created while the bus was down never reached this instance, re-offer what is still pending
+// (drivers may see an offer again for a ride they already had)
+onBusReconnect(async () => {
+    for (const driverId of subscribedIds('offers')) {
+        await offerPendingRidesToDriver(sql, driverId);
+    }
+});
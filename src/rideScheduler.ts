@@ -0,0 +1,177 @@
+import type { Sql } from 'postgres';
+import type { CounterOffer, Ride } from './types';
+import { mapRowToRide } from './types';
+import { recordRideEvent } from './rideEvents';
+import { withdrawRideOffer } from './rideOffers';
+import { closeDispatchAttempts, dispatchRide, expireDispatchAttempts } from './dispatch';
+import { closeCounterOffers, publishCounterOffers } from './counterOffers';
+import { channelName, publish } from './realtime';
+import { badRequest } from './errors';
+
+// Scheduled rides: created with a future pickup time and held out of matching (dispatched_at unset)
+// until DISPATCH_LEAD_MINUTES before pickup. An in-process timer on every instance then
+//   - dispatches due rides: they join the pending pool and are offered to drivers (see dispatch.ts)
+//   - reminds the rider and assigned driver REMINDER_MINUTES before pickup ({ type: 'rideReminder' })
+//   - cancels rides still unclaimed at pickup time, with cancellationReason 'no_driver_found'
+//   - times out auto-dispatch offers whose own timer was lost with the instance that made them
+// Each step claims its rows with a single UPDATE, so instances sharing a database never act twice
+
+const DISPATCH_LEAD_MINUTES = parseInt(Bun.env.SCHEDULED_DISPATCH_LEAD_MINUTES || '20');
+const REMINDER_MINUTES = parseInt(Bun.env.SCHEDULED_REMINDER_MINUTES || '10');
+const MAX_DAYS_AHEAD = parseInt(Bun.env.SCHEDULED_MAX_DAYS_AHEAD || '30');
+const INTERVAL_SECONDS = parseInt(Bun.env.SCHEDULER_INTERVAL_SECONDS || '30');
+
+export const NO_DRIVER_FOUND = 'no_driver_found';
+
+let running = false;
+
+// Checks a requested pickup time, a 400 if it's in the past or too far ahead
+export function parseScheduledTime(scheduledTime: string): Date {
+    const pickupAt = new Date(scheduledTime);
+    const now = Date.now();
+
+    if (pickupAt.getTime() <= now) {
+        throw badRequest('Scheduled time must be in the future');
+    }
+
+    if (pickupAt.getTime() > now + MAX_DAYS_AHEAD * 24 * 60 * 60_000) {
+        throw badRequest(`Rides can be scheduled at most ${MAX_DAYS_AHEAD} days ahead`);
+    }
+
+    return pickupAt;
+}
+
+// Whether a ride picked up at this time belongs in the matching pool now
+export function isDueForDispatch(pickupAt: Date): boolean {
+    return pickupAt.getTime() <= Date.now() + DISPATCH_LEAD_MINUTES * 60_000;
+}
+
+async function dispatchDueRides(sql: Sql) {
+    const now = new Date().toISOString();
+    const dueBefore = new Date(Date.now() + DISPATCH_LEAD_MINUTES * 60_000).toISOString();
+
+    const rows = await sql.begin(async (tx) => {
+        const due = await tx`
+            UPDATE rides SET dispatched_at = ${now}, updated_at = ${now}
+            WHERE status = 'pending'
+                AND dispatched_at IS NULL
+                AND scheduled_time <= ${dueBefore}
+            RETURNING *
+        `;
+
+        for (const row of due) {
+            await recordRideEvent(tx, {
+                rideId: row.id,
+                type: 'ride_dispatched',
+                actorType: 'system',
+                metadata: { scheduledTime: row.scheduled_time },
+            });
+        }
+
+        return due;
+    });
+
+    for (const row of rows) {
+        const ride = mapRowToRide(row);
+        publish(channelName('ride', ride.id), { type: 'rideUpdated', ride });
+        await dispatchRide(sql, ride);
+    }
+}
+
+async function sendReminders(sql: Sql) {
+    const now = new Date();
+    const remindBefore = new Date(now.getTime() + REMINDER_MINUTES * 60_000).toISOString();
+
+    const rows = await sql.begin(async (tx) => {
+        const due = await tx`
+            UPDATE rides SET reminder_sent_at = ${now.toISOString()}
+            WHERE scheduled_time IS NOT NULL
+                AND reminder_sent_at IS NULL
+                AND status IN ('pending', 'accepted', 'driver_assigned')
+                AND scheduled_time > ${now.toISOString()}
+                AND scheduled_time <= ${remindBefore}
+            RETURNING *
+        `;
+
+        for (const row of due) {
+            await recordRideEvent(tx, {
+                rideId: row.id,
+                type: 'reminder_sent',
+                actorType: 'system',
+                driverId: row.assigned_driver_id,
+                metadata: { scheduledTime: row.scheduled_time },
+            });
+        }
+
+        return due;
+    });
+
+    for (const row of rows) {
+        const ride = mapRowToRide(row);
+        const minutesUntilPickup = Math.max(0, Math.round((new Date(row.scheduled_time).getTime() - now.getTime()) / 60_000));
+        const reminder = { type: 'rideReminder' as const, ride, minutesUntilPickup };
+
+        publish(channelName('ride', ride.id), reminder);
+        if (ride.assignedDriverId) {
+            publish(channelName('offers', ride.assignedDriverId), reminder);
+        }
+    }
+}
+
+async function cancelUnclaimedRides(sql: Sql) {
+    const now = new Date().toISOString();
+
+    const cancelled = await sql.begin(async (tx) => {
+        const rows = await tx`
+            UPDATE rides SET status = 'cancelled', cancellation_reason = ${NO_DRIVER_FOUND}, updated_at = ${now}
+            WHERE status = 'pending'
+                AND assigned_driver_id IS NULL
+                AND scheduled_time <= ${now}
+            RETURNING *
+        `;
+
+        const result: { ride: Ride; withdrawnOffers: CounterOffer[] }[] = [];
+        for (const row of rows) {
+            await recordRideEvent(tx, {
+                rideId: row.id,
+                type: 'status_changed',
+                actorType: 'system',
+                previousStatus: 'pending',
+                nextStatus: 'cancelled',
+                metadata: { reason: NO_DRIVER_FOUND },
+            });
+            await closeDispatchAttempts(tx, row.id);
+            result.push({ ride: mapRowToRide(row), withdrawnOffers: await closeCounterOffers(tx, row.id) });
+        }
+
+        return result;
+    });
+
+    for (const { ride, withdrawnOffers } of cancelled) {
+        publish(channelName('ride', ride.id), { type: 'rideUpdated', ride });
+        publishCounterOffers(withdrawnOffers);
+        withdrawRideOffer(ride.id, 'cancelled');
+    }
+}
+
+async function tick(sql: Sql) {
+    if (running) return;
+    running = true;
+
+    try {
+        await dispatchDueRides(sql);
+        await sendReminders(sql);
+        await cancelUnclaimedRides(sql);
+        await expireDispatchAttempts(sql);
+    } catch (error) {
+        console.error('❗ Ride scheduler failed:', (error as Error).message);
+    } finally {
+        running = false;
+    }
+}
+
+export function startRideScheduler(sql: Sql) {
+    setInterval(() => void tick(sql), INTERVAL_SECONDS * 1000).unref();
+    void tick(sql);
+    console.log(`⏰ Ride scheduler running every ${INTERVAL_SECONDS}s (dispatch ${DISPATCH_LEAD_MINUTES} min before pickup)`);
+}
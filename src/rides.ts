@@ -1,66 +1,92 @@
-import { Elysia } from 'elysia';
+import { Elysia, t } from 'elysia';
 import { v4 as uuidv4 } from 'uuid';
-import type { Ride, Coordinates } from './types';
+import type { Ride, RideStatus, Coordinates, Caller, Money } from './types';
+import { mapRowToRide, toSimpleDriver } from './types';
 import type { Sql } from 'postgres';
+import { authPlugin, canAccessRide, canActForDriver, canActForUser, canSeeDriverLocation } from './auth';
+import { RIDE_STATUS_TRANSITIONS, getTransitionError, claimRide } from './rideLifecycle';
+import { matchRidesForDriver, sortMatches, toMatchProfile, type MatchSort } from './matching';
+import { findPendingRidesNear } from './geoQueries';
+import { withdrawRideOffer } from './rideOffers';
+import { closeDispatchAttempts, declineDispatchAttempt, dispatchRide, DISPATCH_MODE, listDispatchAttempts } from './dispatch';
+import { channelName, publish } from './realtime';
+import {
+    closeCounterOffers, listCounterOffers, publishCounterOffers, submitCounterOffer, withdrawCounterOffer,
+} from './counterOffers';
+import { recordRideEvent, mapRowToRideEvent, computeTimelineDurations } from './rideEvents';
+import { getRideRoute } from './locationHistory';
+import { isExcludedForAnomalies } from './locationAnomalies';
+import { getSurgeAt } from './surge';
+import { getRoute } from './routing';
+import { isDueForDispatch, parseScheduledTime } from './rideScheduler';
+import { assertQuoteMatchesTrip, quoteFare, verifyFareQuote, type FareQuoteRequest } from './fares';
+import { badRequest, conflict, forbidden, notFound } from './errors';
+import {
+    CoordinatesSchema, Email, Id, IdParams, Limit, literalUnion, MoneySchema, NonEmptyString, Offset, RideStatusSchema,
+} from './schemas';
+import {
+    CounterOfferModel, DispatchAttemptModel, DriverMatchingPreferencesModel, DriverModel, DriverLocationModel, MessageModel, RideEventModel, RideModel,
+    RideRouteModel, RideTimelineDurationsModel, responds,
+} from './openapi';
+
+const MatchingRideModel = t.Composite([
+    RideModel,
+    t.Object({
+        distanceToPickup: t.Number(),
+        pickupEtaSeconds: t.Integer(),
+        driverMinPrice: MoneySchema,
+        ridePrice: MoneySchema,
+        matchScore: t.Number(),
+        belowMinimum: t.Boolean(),
+        suggestedCounterPrice: t.Optional(MoneySchema),
+    }),
+]);
+
+const FareQuoteModel = t.Object({
+    quoteId: t.String(),
+    fare: MoneySchema,
+    distanceKm: t.Number(),
+    durationMinutes: t.Integer(),
+    passengerCount: t.Integer(),
+    requiredVehicleType: t.Integer(),
+    originCoordinates: CoordinatesSchema,
+    destinationCoordinates: CoordinatesSchema,
+    surgeZone: t.String(),
+    breakdown: t.Object({
+        baseFare: MoneySchema,
+        distanceFare: MoneySchema,
+        timeFare: MoneySchema,
+        minimumFare: MoneySchema,
+        surgeMultiplier: t.Number(),
+    }),
+    polyline: t.String(),
+    expiresAt: t.String({ format: 'date-time' }),
+});
+
+export const rideRoutes = new Elysia({ prefix: '/api/rides', detail: { tags: ['Rides'] } })
+    .use(authPlugin)
+
+    // Quote a fare for a trip (see fares.ts), the quote id is then passed to /create
+    // Priced along the road route (see routing.ts) with the current surge in the pickup zone
+    .post('/quote', async ({ body, db }: { body: FareQuoteRequest; db: Sql }) => {
+        const [route, surge] = await Promise.all([
+            getRoute(body.originCoordinates, body.destinationCoordinates),
+            getSurgeAt(db, body.originCoordinates),
+        ]);
+        return { quote: quoteFare(body, route, surge) };
+    }, {
+        roles: ['rider', 'admin'],
+        body: t.Object({
+            originCoordinates: CoordinatesSchema,
+            destinationCoordinates: CoordinatesSchema,
+            passengerCount: t.Optional(t.Integer({ minimum: 1, maximum: 8 })),
+            requiredVehicleType: t.Optional(t.Integer({ minimum: 1, maximum: 5 })),
+        }),
+        detail: responds(t.Object({ quote: FareQuoteModel })),
+    })
 
-function mapRowToRide(row: any): Ride {
-    return {
-        id: row.id,
-        userId: row.user_id,
-        userEmail: row.user_email,
-        walletAddress: row.wallet_address,
-        originCoordinates: { latitude: row.origin_lat, longitude: row.origin_lng },
-        destinationCoordinates: { latitude: row.destination_lat, longitude: row.destination_lng },
-        originAddress: row.origin_address,
-        destinationAddress: row.destination_address,
-        estimatedPrice: row.estimated_price,
-        customPrice: row.custom_price,
-        distanceKm: row.distance_km,
-        passengerCount: row.passenger_count ?? 1,
-        requiredVehicleType: row.required_vehicle_type ?? 1,
-        status: row.status,
-        assignedDriverId: row.assigned_driver_id,
-        driverAcceptedAt: row.driver_accepted_at,
-        createdAt: row.created_at,
-        updatedAt: row.updated_at,
-    };
-}
-
-// Haversine formula to calculate distance between two coordinates in km
-function calculateDistanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    const R = 6371; // Earth's radius in km
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLng = (lng2 - lng1) * Math.PI / 180;
-    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-              Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-              Math.sin(dLng / 2) * Math.sin(dLng / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-}
-
-// Calculate driver's minimum price for a ride based on their preferences
-function calculateDriverMinPrice(pricePerKm: number, minPricePerRide: number, distanceKm: number): number {
-    const distanceBasedPrice = pricePerKm * distanceKm;
-    return Math.max(distanceBasedPrice, minPricePerRide);
-}
-
-// Parse price string to number (handles "$10.50" or "10.50" formats)
-function parsePriceToNumber(price: string | undefined | null): number {
-    if (!price) return 0;
-    const cleaned = price.replace(/[^0-9.]/g, '');
-    return parseFloat(cleaned) || 0;
-}
-
-interface MatchingRide extends Ride {
-    distanceToPickup: number;
-    driverMinPrice: number;
-    ridePrice: number;
-    matchScore: number;
-}
-
-export const rideRoutes = new Elysia({ prefix: '/api/rides' })
     // Create new ride
-    .post('/create', async ({ body, db }: {
+    .post('/create', async ({ body, db, caller }: {
         body: {
             userId: string;
             userEmail: string;
@@ -69,652 +95,898 @@ export const rideRoutes = new Elysia({ prefix: '/api/rides' })
             destinationCoordinates: Coordinates;
             originAddress: string;
             destinationAddress: string;
-            estimatedPrice?: string;
-            customPrice?: string;
+            quoteId: string;
             scheduledTime?: string;
             notes?: string;
         };
         db: Sql;
+        caller: Caller;
     }) => {
-        try {
-            const {
-                userId,
-                userEmail,
-                walletAddress,
-                originCoordinates,
-                destinationCoordinates,
-                originAddress,
-                destinationAddress,
-                estimatedPrice,
-                customPrice,
-            } = body;
-
-            // Validate required fields
-            if (!userId || !userEmail || !originCoordinates || !destinationCoordinates || !originAddress || !destinationAddress) {
-                return {
-                    error: 'Missing required fields',
-                    status: 400,
-                };
-            }
+        const {
+            userId,
+            userEmail,
+            walletAddress,
+            originCoordinates,
+            destinationCoordinates,
+            originAddress,
+            destinationAddress,
+            quoteId,
+            scheduledTime,
+            notes,
+        } = body;
+
+        if (!canActForUser(caller, userId)) {
+            throw forbidden('You can only request rides for your own account');
+        }
 
-            // Validate coordinates
-            if (typeof originCoordinates.latitude !== 'number' || typeof originCoordinates.longitude !== 'number' ||
-                typeof destinationCoordinates.latitude !== 'number' || typeof destinationCoordinates.longitude !== 'number') {
-                return {
-                    error: 'Invalid coordinates format',
-                    status: 400,
-                };
-            }
+        // The price comes from the quote, never from the client
+        const quote = verifyFareQuote(quoteId);
+        assertQuoteMatchesTrip(quote, originCoordinates, destinationCoordinates);
 
-            // Create new ride
-            const rideId = uuidv4();
-            const now = new Date().toISOString();
-
-            await db`
-                INSERT INTO rides (
-                    id, user_id, user_email, wallet_address,
-                    origin_lat, origin_lng, destination_lat, destination_lng,
-                    origin_address, destination_address,
-                    estimated_price, custom_price, status,
-                    created_at, updated_at
-                ) VALUES (
-                    ${rideId}, ${userId}, ${userEmail}, ${walletAddress},
-                    ${originCoordinates.latitude}, ${originCoordinates.longitude},
-                    ${destinationCoordinates.latitude}, ${destinationCoordinates.longitude},
-                    ${originAddress}, ${destinationAddress},
-                    ${estimatedPrice || null}, ${customPrice || null}, 'pending',
-                    ${now}, ${now}
-                )
-            `;
+        const usedQuotes = await db`
+            SELECT 1 FROM rides WHERE quote_id = ${quote.jti}
+        `;
+        if (usedQuotes.length > 0) {
+            throw conflict('Quote has already been used for another ride');
+        }
+
+        // Rides scheduled further ahead than the dispatch lead time wait for the scheduler
+        const pickupAt = scheduledTime ? parseScheduledTime(scheduledTime) : null;
+
+        // Create new ride
+        const rideId = uuidv4();
+        const now = new Date().toISOString();
+        const dispatchedAt = !pickupAt || isDueForDispatch(pickupAt) ? now : null;
+
+        await db`
+            INSERT INTO rides (
+                id, user_id, user_email, wallet_address,
+                origin_lat, origin_lng, destination_lat, destination_lng,
+                origin_address, destination_address,
+                fare_amount, fare_currency, quote_id,
+                distance_km, passenger_count, required_vehicle_type, status,
+                scheduled_time, dispatched_at, notes, dispatch_mode,
+                created_at, updated_at
+            ) VALUES (
+                ${rideId}, ${userId}, ${userEmail}, ${walletAddress},
+                ${originCoordinates.latitude}, ${originCoordinates.longitude},
+                ${destinationCoordinates.latitude}, ${destinationCoordinates.longitude},
+                ${originAddress}, ${destinationAddress},
+                ${quote.fare.amount}, ${quote.fare.currency}, ${quote.jti},
+                ${quote.distanceKm}, ${quote.passengerCount}, ${quote.requiredVehicleType}, 'pending',
+                ${pickupAt?.toISOString() ?? null}, ${dispatchedAt}, ${notes ?? null}, ${DISPATCH_MODE},
+                ${now}, ${now}
+            )
+        `;
+
+        const newRide: Ride = {
+            id: rideId,
+            userId,
+            userEmail,
+            walletAddress,
+            originCoordinates,
+            destinationCoordinates,
+            originAddress,
+            destinationAddress,
+            fare: quote.fare,
+            distanceKm: quote.distanceKm,
+            passengerCount: quote.passengerCount,
+            requiredVehicleType: quote.requiredVehicleType,
+            scheduledTime: pickupAt?.toISOString(),
+            dispatchedAt: dispatchedAt ?? undefined,
+            notes,
+            dispatchMode: DISPATCH_MODE,
+            status: 'pending',
+            createdAt: now,
+            updatedAt: now,
+        };
 
-            const newRide: Ride = {
-                id: rideId,
-                userId,
-                userEmail,
-                walletAddress,
-                originCoordinates,
-                destinationCoordinates,
-                originAddress,
-                destinationAddress,
-                estimatedPrice,
-                customPrice,
-                status: 'pending',
-                createdAt: now,
-                updatedAt: now,
-            };
-
-            return {
-                success: true,
-                ride: newRide
-            };
-
-        } catch (error) {
-            console.error('Error creating ride:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        // Push the ride to matching drivers (or the best one, see dispatch.ts) without holding up the response
+        if (dispatchedAt) {
+            dispatchRide(db, newRide).catch((error) => {
+                console.error('Failed to dispatch ride:', error);
+            });
         }
+
+        return {
+            success: true,
+            ride: newRide
+        };
+    }, {
+        roles: ['rider', 'admin'],
+        body: t.Object({
+            userId: Id,
+            userEmail: Email,
+            walletAddress: t.String(),
+            originCoordinates: CoordinatesSchema,
+            destinationCoordinates: CoordinatesSchema,
+            originAddress: NonEmptyString,
+            destinationAddress: NonEmptyString,
+            quoteId: NonEmptyString,
+            scheduledTime: t.Optional(t.String({ format: 'date-time' })),
+            notes: t.Optional(t.String({ maxLength: 500 })),
+        }),
+        detail: responds(t.Object({ success: t.Boolean(), ride: RideModel })),
     })
 
     // Get ride by ID
-    .get('/:id', async ({ params, db }: { params: { id: string }; db: Sql }) => {
-        try {
-            const { id } = params;
+    // Drivers may also look at pending rides they could pick up
+    .get('/:id', async ({ params, db, caller }: { params: { id: string }; db: Sql; caller: Caller }) => {
+        const { id } = params;
 
-            const rides = await db`
-                SELECT * FROM rides WHERE id = ${id}
-            `;
+        const rides = await db`
+            SELECT * FROM rides WHERE id = ${id}
+        `;
 
-            if (rides.length === 0) {
-                return {
-                    error: 'Ride not found',
-                    status: 404,
-                };
-            }
-
-            const ride = mapRowToRide(rides[0]!);
-            return { ride };
+        if (rides.length === 0) {
+            throw notFound('Ride not found');
+        }
 
-        } catch (error) {
-            console.error('Error fetching ride:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        if (!canAccessRide(caller, rides[0]!) && !(caller.role === 'driver' && rides[0]!.status === 'pending')) {
+            throw forbidden('You do not have access to this ride');
         }
-    })
 
-    // Get rides by user ID
-    .get('/user/:userId', async ({ params, db }: { params: { userId: string }; db: Sql }) => {
-        try {
-            const { userId } = params;
-
-            const results = await db`
-                SELECT * FROM rides 
-                WHERE user_id = ${userId}
-                ORDER BY created_at DESC
-            `;
+        const ride = mapRowToRide(rides[0]!);
+        return { ride };
+    }, { roles: ['rider', 'driver', 'admin'], params: IdParams, detail: responds(t.Object({ ride: RideModel })) })
 
-            const rides: Ride[] = results.map(mapRowToRide);
-            return { rides };
+    // Get rides by user ID
+    .get('/user/:userId', async ({ params, db, caller }: { params: { userId: string }; db: Sql; caller: Caller }) => {
+        const { userId } = params;
 
-        } catch (error) {
-            console.error('Error fetching user rides:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        if (!canActForUser(caller, userId)) {
+            throw forbidden('You can only view your own rides');
         }
-    })
 
-    // Get all rides (for admin purposes - with pagination)
-    .get('/', async ({ query, db }: { query: { limit?: string; offset?: string; status?: string }; db: Sql }) => {
-        try {
-            const limit = parseInt(query.limit || '50');
-            const offset = parseInt(query.offset || '0');
-            const statusFilter = query.status;
-
-            let results;
-            if (statusFilter) {
-                results = await db`
-                    SELECT * FROM rides 
-                    WHERE status = ${statusFilter}
-                    ORDER BY created_at DESC
-                    LIMIT ${limit} OFFSET ${offset}
-                `;
-            } else {
-                results = await db`
-                    SELECT * FROM rides 
-                    ORDER BY created_at DESC
-                    LIMIT ${limit} OFFSET ${offset}
-                `;
-            }
+        const results = await db`
+            SELECT * FROM rides 
+            WHERE user_id = ${userId}
+            ORDER BY created_at DESC
+        `;
 
-            const rides: Ride[] = results.map(mapRowToRide);
+        const rides: Ride[] = results.map(mapRowToRide);
+        return { rides };
+    }, { roles: ['rider', 'admin'], params: t.Object({ userId: Id }), detail: responds(t.Object({ rides: t.Array(RideModel) })) })
 
-            const totalResult = await db`SELECT COUNT(*) as count FROM rides`;
-            const total = parseInt(totalResult[0]!.count as string);
-
-            return {
-                rides,
-                total,
-                offset
-            };
-
-        } catch (error) {
-            console.error('Error fetching rides:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
-        }
+    // Get all rides (for admin purposes - with pagination)
+    // driverUnresponsive=true lists the rides whose driver went silent mid-ride (see driverPresence.ts)
+    .get('/', async ({ query, db }: {
+        query: { limit: number; offset: number; status?: RideStatus; driverUnresponsive?: boolean };
+        db: Sql;
+    }) => {
+        const { limit, offset, status: statusFilter, driverUnresponsive } = query;
+
+        // The total counts the same filtered rides
+        const filters = db`
+            ${statusFilter ? db`AND status = ${statusFilter}` : db``}
+            ${driverUnresponsive ? db`AND driver_unresponsive_since IS NOT NULL` : db``}
+        `;
+
+        const results = await db`
+            SELECT * FROM rides
+            WHERE TRUE ${filters}
+            ORDER BY created_at DESC
+            LIMIT ${limit} OFFSET ${offset}
+        `;
+
+        const rides: Ride[] = results.map(mapRowToRide);
+
+        const totalResult = await db`SELECT COUNT(*) as count FROM rides WHERE TRUE ${filters}`;
+        const total = parseInt(totalResult[0]!.count as string);
+
+        return {
+            rides,
+            total,
+            offset
+        };
+    }, {
+        roles: ['admin'],
+        query: t.Object({
+            limit: Limit(50),
+            offset: Offset,
+            status: t.Optional(RideStatusSchema),
+            driverUnresponsive: t.Optional(t.Boolean()),
+        }),
+        detail: responds(t.Object({ rides: t.Array(RideModel), total: t.Integer(), offset: t.Integer() })),
     })
 
     // Update ride status
-    .put('/:id/status', async ({ params, body, db }: {
+    // Moves are checked against RIDE_STATUS_TRANSITIONS and applied with a
+    // compare-and-swap on the current status, so concurrent updates can't both win
+    // Riders may only cancel their own rides
+    .put('/:id/status', async ({ params, body, db, caller }: {
         params: { id: string };
-        body: { status: string };
+        body: { status: RideStatus; expectedStatus?: RideStatus };
         db: Sql;
+        caller: Caller;
     }) => {
-        try {
-            const { id } = params;
-            const { status } = body;
+        const { id } = params;
+        const { status, expectedStatus } = body;
 
-            const validStatuses = [
-                'pending', 'accepted', 'driver_assigned', 'approaching_pickup',
-                'driver_arrived', 'in_progress', 'completed', 'cancelled'
-            ];
+        const rides = await db`
+            SELECT * FROM rides WHERE id = ${id}
+        `;
 
-            if (!status || !validStatuses.includes(status)) {
-                return {
-                    error: `Invalid status. Must be one of: ${validStatuses.join(', ')}`,
-                    status: 400,
-                };
-            }
+        if (rides.length === 0) {
+            throw notFound('Ride not found');
+        }
+
+        const existingRide = rides[0]!;
+        const currentStatus = existingRide.status as RideStatus;
+
+        if (!canAccessRide(caller, existingRide)) {
+            throw forbidden('You do not have access to this ride');
+        }
 
-            const now = new Date().toISOString();
+        if (caller.role === 'rider' && status !== 'cancelled') {
+            throw forbidden('Riders can only cancel a ride');
+        }
+
+        if (expectedStatus && expectedStatus !== currentStatus) {
+            throw conflict(`Ride status is '${currentStatus}', expected '${expectedStatus}'`);
+        }
+
+        const transitionError = getTransitionError(currentStatus, status, !!existingRide.assigned_driver_id);
+        if (transitionError) {
+            throw conflict(transitionError);
+        }
+
+        // Snapshot the driver's position for the event log
+        let driverLocation: { latitude: number | null; longitude: number | null } | undefined;
+        if (existingRide.assigned_driver_id) {
+            const drivers = await db`
+                SELECT latitude, longitude FROM drivers WHERE id = ${existingRide.assigned_driver_id}
+            `;
+            driverLocation = drivers[0] as typeof driverLocation;
+        }
 
-            const result = await db`
+        const now = new Date().toISOString();
+
+        const result = await db.begin(async (tx) => {
+            const updated = await tx`
                 UPDATE rides 
                 SET status = ${status}, updated_at = ${now}
-                WHERE id = ${id}
+                WHERE id = ${id} AND status = ${currentStatus}
                 RETURNING *
             `;
 
-            if (result.length === 0) {
-                return {
-                    error: 'Ride not found',
-                    status: 404,
-                };
+            // Release the driver once the ride is over
+            // A driver the presence sweeper took offline stays offline (see driverPresence.ts)
+            if (updated.length > 0 && RIDE_STATUS_TRANSITIONS[status].length === 0 && existingRide.assigned_driver_id) {
+                await tx`
+                    UPDATE drivers SET
+                        availability = CASE WHEN availability = 'online_busy' THEN 'online_free' ELSE availability END,
+                        current_ride_id = NULL,
+                        updated_at = ${now}
+                    WHERE id = ${existingRide.assigned_driver_id} AND current_ride_id = ${id}
+                `;
             }
 
-            const updatedRide = mapRowToRide(result[0]!);
-            return {
-                success: true,
-                ride: updatedRide
-            };
+            const withdrawnOffers = updated.length > 0 && status === 'cancelled'
+                ? await closeCounterOffers(tx, id)
+                : [];
+            if (updated.length > 0 && status === 'cancelled') {
+                await closeDispatchAttempts(tx, id);
+            }
 
-        } catch (error) {
-            console.error('Error updating ride status:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+            if (updated.length > 0) {
+                await recordRideEvent(tx, {
+                    rideId: id,
+                    type: 'status_changed',
+                    actorType: caller.role,
+                    actorId: caller.id,
+                    previousStatus: currentStatus,
+                    nextStatus: status,
+                    driverId: existingRide.assigned_driver_id,
+                    driverLat: driverLocation?.latitude,
+                    driverLng: driverLocation?.longitude,
+                });
+            }
+
+            return { updated, withdrawnOffers };
+        });
+
+        if (result.updated.length === 0) {
+            throw conflict('Ride was modified by another request, reload and retry');
         }
+
+        const updatedRide = mapRowToRide(result.updated[0]!);
+        publish(channelName('ride', id), { type: 'rideUpdated', ride: updatedRide });
+        publishCounterOffers(result.withdrawnOffers);
+        if (updatedRide.status === 'cancelled') {
+            withdrawRideOffer(id, 'cancelled');
+        }
+
+        return {
+            success: true,
+            ride: updatedRide
+        };
+    }, {
+        roles: ['rider', 'driver', 'admin'],
+        params: IdParams,
+        body: t.Object({
+            status: RideStatusSchema,
+            expectedStatus: t.Optional(RideStatusSchema),
+        }),
+        detail: responds(t.Object({ success: t.Boolean(), ride: RideModel })),
     })
 
-    // Assign driver to ride
-    .put('/:id/assign-driver', async ({ params, body, db }: {
+    // Assign driver to ride (atomic claim - see claimRide)
+    .put('/:id/assign-driver', async ({ params, body, db, caller }: {
         params: { id: string };
-        body: { driverId: string; status?: string };
+        body: { driverId: string; status?: 'accepted' | 'driver_assigned' };
         db: Sql;
+        caller: Caller;
     }) => {
-        try {
-            const { id } = params;
-            const { driverId, status = 'driver_assigned' } = body;
+        const { id } = params;
+        const { driverId, status = 'driver_assigned' } = body;
 
-            if (!driverId) {
-                return {
-                    error: 'Driver ID is required',
-                    status: 400,
-                };
-            }
+        if (!canActForDriver(caller, driverId)) {
+            throw forbidden('Drivers can only assign rides to themselves');
+        }
 
-            // Get existing ride
-            const rides = await db`
-                SELECT * FROM rides WHERE id = ${id}
-            `;
+        const claim = await claimRide(db, {
+            rideId: id,
+            driverId,
+            status,
+            actor: { type: caller.role, id: caller.id },
+        });
 
-            if (rides.length === 0) {
-                return {
-                    error: 'Ride not found',
-                    status: 404,
-                };
-            }
+        const updatedRide = claim.ride;
+        publish(channelName('ride', id), { type: 'rideUpdated', ride: updatedRide });
+        publishCounterOffers(claim.counterOffers);
+        withdrawRideOffer(id, 'claimed', driverId);
 
-            const existingRide = rides[0]!;
+        const driver = toSimpleDriver(claim.driver);
 
-            if (!['pending', 'accepted'].includes(existingRide.status)) {
-                return {
-                    error: 'Ride cannot be assigned to driver in current status',
-                    status: 400,
-                };
-            }
+        return {
+            success: true,
+            ride: updatedRide,
+            driver
+        };
+    }, {
+        roles: ['driver', 'admin'],
+        params: IdParams,
+        body: t.Object({
+            driverId: Id,
+            status: t.Optional(literalUnion(['accepted', 'driver_assigned'])),
+        }),
+        detail: responds(t.Object({ success: t.Boolean(), ride: RideModel, driver: DriverModel })),
+    })
 
-            // Get driver info
-            const drivers = await db`
-                SELECT * FROM drivers WHERE id = ${driverId}
-            `;
+    // Counter-offers on a ride (see counterOffers.ts)
+    // The rider and admins see every offer, a driver only sees their own
+    .get('/:id/offers', async ({ params, db, caller }: { params: { id: string }; db: Sql; caller: Caller }) => {
+        const { id } = params;
 
-            if (drivers.length === 0) {
-                return {
-                    error: 'Driver not found',
-                    status: 404,
-                };
-            }
+        const rides = await db`
+            SELECT id, user_id FROM rides WHERE id = ${id}
+        `;
 
-            const fullDriver = drivers[0]!;
-            const now = new Date().toISOString();
+        if (rides.length === 0) {
+            throw notFound('Ride not found');
+        }
 
-            // Update ride
-            const result = await db`
-                UPDATE rides 
-                SET 
-                    assigned_driver_id = ${driverId},
-                    status = ${status},
-                    driver_accepted_at = ${now},
-                    updated_at = ${now}
-                WHERE id = ${id}
-                RETURNING *
-            `;
+        if (caller.role === 'rider' && rides[0]!.user_id !== caller.id) {
+            throw forbidden('You do not have access to this ride');
+        }
+
+        const offers = await listCounterOffers(db, id, caller.role === 'driver' ? caller.id : undefined);
+
+        return { offers };
+    }, { roles: ['rider', 'driver', 'admin'], params: IdParams, detail: responds(t.Object({ offers: t.Array(CounterOfferModel) })) })
+
+    // Send a counter-offer on a pending ride, replacing the driver's open one
+    .post('/:id/offers', async ({ params, body, db, caller }: {
+        params: { id: string };
+        body: { driverId: string; price: Money; message?: string };
+        db: Sql;
+        caller: Caller;
+    }) => {
+        const { id } = params;
+        const { driverId, price, message } = body;
 
-            const updatedRide = mapRowToRide(result[0]!);
-
-            const driver = {
-                id: fullDriver.id,
-                email: fullDriver.email,
-                username: fullDriver.full_name || fullDriver.email.split('@')[0],
-                walletAddress: fullDriver.wallet_address || '',
-                isDriver: fullDriver.status === 'approved',
-                createdAt: fullDriver.created_at,
-                updatedAt: fullDriver.updated_at,
-            };
-
-            return {
-                success: true,
-                ride: updatedRide,
-                driver
-            };
-
-        } catch (error) {
-            console.error('Error assigning driver to ride:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        if (!canActForDriver(caller, driverId)) {
+            throw forbidden('Drivers can only make offers for themselves');
         }
+
+        const offer = await db.begin((tx) => submitCounterOffer(tx, { rideId: id, driverId, price, message }));
+        publishCounterOffers([offer]);
+
+        return { offer };
+    }, {
+        roles: ['driver', 'admin'],
+        params: IdParams,
+        body: t.Object({
+            driverId: Id,
+            price: MoneySchema,
+            message: t.Optional(t.String({ maxLength: 280 })),
+        }),
+        detail: responds(t.Object({ offer: CounterOfferModel })),
     })
 
-    // Get assigned driver
-    .get('/:id/driver', async ({ params, db }: {
-        params: { id: string };
+    // Accept a counter-offer: the offering driver is assigned at the offered price and the
+    // other open offers are withdrawn, all in the claim transaction (see claimRide)
+    .post('/:id/offers/:offerId/accept', async ({ params, db, caller }: {
+        params: { id: string; offerId: string };
         db: Sql;
+        caller: Caller;
     }) => {
-        try {
-            const { id } = params;
+        const { id, offerId } = params;
 
-            // Get ride data
-            const rides = await db`
-                SELECT * FROM rides WHERE id = ${id}
-            `;
+        const rides = await db`
+            SELECT id, user_id FROM rides WHERE id = ${id}
+        `;
 
-            if (rides.length === 0) {
-                return {
-                    error: 'Ride not found',
-                    status: 404,
-                };
-            }
+        if (rides.length === 0) {
+            throw notFound('Ride not found');
+        }
 
-            const ride = rides[0]!;
+        if (!canActForUser(caller, rides[0]!.user_id)) {
+            throw forbidden('Only the rider can accept offers on this ride');
+        }
 
-            if (!ride.assigned_driver_id) {
-                return { driver: null };
-            }
+        const offers = await db`
+            SELECT driver_id FROM counter_offers WHERE id = ${offerId} AND ride_id = ${id}
+        `;
 
-            // Get driver data
-            const drivers = await db`
-                SELECT * FROM drivers WHERE id = ${ride.assigned_driver_id}
-            `;
+        if (offers.length === 0) {
+            throw notFound('Offer not found');
+        }
 
-            if (drivers.length === 0) {
-                return { driver: null };
-            }
+        const claim = await claimRide(db, {
+            rideId: id,
+            driverId: offers[0]!.driver_id,
+            status: 'driver_assigned',
+            actor: { type: caller.role, id: caller.id },
+            counterOfferId: offerId,
+        });
+
+        // acceptCounterOffer throws unless the offer was accepted, this only narrows the type
+        const offer = claim.acceptedOffer;
+        if (!offer) {
+            throw conflict('Offer is not open');
+        }
+
+        const updatedRide = claim.ride;
+        publish(channelName('ride', id), { type: 'rideUpdated', ride: updatedRide });
+        publishCounterOffers(claim.counterOffers);
+        withdrawRideOffer(id, 'claimed', offer.driverId);
+
+        return {
+            success: true,
+            ride: updatedRide,
+            offer,
+        };
+    }, {
+        roles: ['rider', 'admin'],
+        params: t.Object({ id: Id, offerId: Id }),
+        detail: responds(t.Object({ success: t.Boolean(), ride: RideModel, offer: CounterOfferModel })),
+    })
 
-            const fullDriver = drivers[0]!;
-            const driver = {
-                id: fullDriver.id,
-                email: fullDriver.email,
-                username: fullDriver.full_name || fullDriver.email.split('@')[0],
-                walletAddress: fullDriver.wallet_address || '',
-                isDriver: fullDriver.status === 'approved',
-                createdAt: fullDriver.created_at,
-                updatedAt: fullDriver.updated_at,
-            };
-
-            return { driver };
-
-        } catch (error) {
-            console.error('Error getting assigned driver:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+    // Withdraw a counter-offer, only the driver who made it can
+    .delete('/:id/offers/:offerId', async ({ params, db, caller }: {
+        params: { id: string; offerId: string };
+        db: Sql;
+        caller: Caller;
+    }) => {
+        const { id, offerId } = params;
+
+        const offers = await db`
+            SELECT driver_id FROM counter_offers WHERE id = ${offerId} AND ride_id = ${id}
+        `;
+
+        if (offers.length === 0) {
+            throw notFound('Offer not found');
         }
+
+        if (!canActForDriver(caller, offers[0]!.driver_id)) {
+            throw forbidden('Drivers can only withdraw their own offers');
+        }
+
+        const offer = await withdrawCounterOffer(db, id, offerId, offers[0]!.driver_id);
+        publishCounterOffers([offer]);
+
+        return { offer };
+    }, {
+        roles: ['driver', 'admin'],
+        params: t.Object({ id: Id, offerId: Id }),
+        detail: responds(t.Object({ offer: CounterOfferModel })),
     })
 
-    // Get driver location
-    .get('/:id/location', async ({ params, db }: {
-        params: { id: string };
+    // Auto-dispatch attempts on a ride, in the order drivers were offered it (see dispatch.ts)
+    // The rider and admins see every attempt, a driver only sees their own
+    .get('/:id/dispatch-attempts', async ({ params, db, caller }: { params: { id: string }; db: Sql; caller: Caller }) => {
+        const { id } = params;
+
+        const rides = await db`
+            SELECT id, user_id FROM rides WHERE id = ${id}
+        `;
+
+        if (rides.length === 0) {
+            throw notFound('Ride not found');
+        }
+
+        if (caller.role === 'rider' && rides[0]!.user_id !== caller.id) {
+            throw forbidden('You do not have access to this ride');
+        }
+
+        const attempts = await listDispatchAttempts(db, id, caller.role === 'driver' ? caller.id : undefined);
+
+        return { attempts };
+    }, { roles: ['rider', 'driver', 'admin'], params: IdParams, detail: responds(t.Object({ attempts: t.Array(DispatchAttemptModel) })) })
+
+    // Accept the auto-dispatch offer made to a driver, claiming the ride (see claimRide)
+    .post('/:id/dispatch-attempts/:attemptId/accept', async ({ params, db, caller }: {
+        params: { id: string; attemptId: string };
         db: Sql;
+        caller: Caller;
     }) => {
-        try {
-            const { id: driverId } = params;
+        const { id, attemptId } = params;
 
-            // Get location from driver_locations table
-            const locations = await db`
-                SELECT * FROM driver_locations WHERE driver_id = ${driverId}
-            `;
+        const attempts = await db`
+            SELECT driver_id FROM dispatch_attempts WHERE id = ${attemptId} AND ride_id = ${id}
+        `;
 
-            if (locations.length === 0) {
-                // Fallback: get location from driver record
-                const drivers = await db`
-                    SELECT latitude, longitude, last_location_update 
-                    FROM drivers 
-                    WHERE id = ${driverId}
-                `;
+        if (attempts.length === 0) {
+            throw notFound('Dispatch attempt not found');
+        }
 
-                if (drivers.length > 0 && drivers[0]!.latitude && drivers[0]!.longitude) {
-                    return {
-                        location: {
-                            driverId,
-                            latitude: drivers[0]!.latitude,
-                            longitude: drivers[0]!.longitude,
-                            timestamp: drivers[0]!.last_location_update || new Date().toISOString(),
-                        }
-                    };
-                }
-
-                return { location: null };
-            }
+        const driverId = attempts[0]!.driver_id as string;
+        if (!canActForDriver(caller, driverId)) {
+            throw forbidden('Drivers can only answer offers made to them');
+        }
+
+        const claim = await claimRide(db, {
+            rideId: id,
+            driverId,
+            status: 'driver_assigned',
+            actor: { type: caller.role, id: caller.id },
+            dispatchAttemptId: attemptId,
+        });
+
+        const updatedRide = claim.ride;
+        publish(channelName('ride', id), { type: 'rideUpdated', ride: updatedRide });
+        publishCounterOffers(claim.counterOffers);
+        withdrawRideOffer(id, 'claimed', driverId);
+
+        return {
+            success: true,
+            ride: updatedRide,
+        };
+    }, {
+        roles: ['driver', 'admin'],
+        params: t.Object({ id: Id, attemptId: Id }),
+        detail: responds(t.Object({ success: t.Boolean(), ride: RideModel })),
+    })
+
+    // Decline the auto-dispatch offer made to a driver, the ride moves on to the next driver
+    .post('/:id/dispatch-attempts/:attemptId/decline', async ({ params, db, caller }: {
+        params: { id: string; attemptId: string };
+        db: Sql;
+        caller: Caller;
+    }) => {
+        const { id, attemptId } = params;
+
+        const attempts = await db`
+            SELECT driver_id FROM dispatch_attempts WHERE id = ${attemptId} AND ride_id = ${id}
+        `;
+
+        if (attempts.length === 0) {
+            throw notFound('Dispatch attempt not found');
+        }
 
-            const loc = locations[0]!;
-            return {
-                location: {
-                    driverId: loc.driver_id,
-                    latitude: loc.latitude,
-                    longitude: loc.longitude,
-                    heading: loc.heading,
-                    speed: loc.speed,
-                    accuracy: loc.accuracy,
-                    timestamp: loc.timestamp,
-                }
-            };
-
-        } catch (error) {
-            console.error('Error getting driver location:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        const driverId = attempts[0]!.driver_id as string;
+        if (!canActForDriver(caller, driverId)) {
+            throw forbidden('Drivers can only answer offers made to them');
         }
+
+        const attempt = await declineDispatchAttempt(db, id, attemptId, driverId);
+
+        return { attempt };
+    }, {
+        roles: ['driver', 'admin'],
+        params: t.Object({ id: Id, attemptId: Id }),
+        detail: responds(t.Object({ attempt: DispatchAttemptModel })),
     })
 
-    // Delete ride
-    .delete('/:id', async ({ params, db }: { params: { id: string }; db: Sql }) => {
-        try {
-            const { id } = params;
+    // Get ride status history with computed durations
+    .get('/:id/timeline', async ({ params, db, caller }: { params: { id: string }; db: Sql; caller: Caller }) => {
+        const { id } = params;
 
-            const result = await db`
-                DELETE FROM rides WHERE id = ${id} RETURNING id
-            `;
+        const rides = await db`
+            SELECT * FROM rides WHERE id = ${id}
+        `;
 
-            if (result.length === 0) {
-                return {
-                    error: 'Ride not found',
-                    status: 404,
-                };
-            }
+        if (rides.length === 0) {
+            throw notFound('Ride not found');
+        }
 
-            return {
-                success: true,
-                message: 'Ride deleted successfully'
-            };
+        if (!canAccessRide(caller, rides[0]!)) {
+            throw forbidden('You do not have access to this ride');
+        }
+
+        const ride = mapRowToRide(rides[0]!);
+
+        const results = await db`
+            SELECT * FROM ride_events
+            WHERE ride_id = ${id}
+            ORDER BY created_at ASC, id ASC
+        `;
+
+        const events = results.map(mapRowToRideEvent);
 
-        } catch (error) {
-            console.error('Error deleting ride:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        return {
+            rideId: ride.id,
+            status: ride.status,
+            createdAt: ride.createdAt,
+            events,
+            durations: computeTimelineDurations(ride.createdAt, events),
+        };
+    }, { roles: ['rider', 'driver', 'admin'], params: IdParams, detail: responds(t.Object({
+            rideId: t.String(),
+            status: RideStatusSchema,
+            createdAt: t.String({ format: 'date-time' }),
+            events: t.Array(RideEventModel),
+            durations: RideTimelineDurationsModel,
+        })) })
+
+    // Get the breadcrumb trail the assigned driver reported while on the ride (see locationHistory.ts)
+    .get('/:id/route', async ({ params, db, caller }: { params: { id: string }; db: Sql; caller: Caller }) => {
+        const { id } = params;
+
+        const rides = await db`
+            SELECT id, user_id, assigned_driver_id FROM rides WHERE id = ${id}
+        `;
+
+        if (rides.length === 0) {
+            throw notFound('Ride not found');
         }
-    })
 
-    // ============================================================
-    // MATCHING ALGORITHM: Get rides matching driver's preferences
-    // ============================================================
-    //
-    // This endpoint returns only rides that match the driver's profile:
-    // 1. Within driver's max pickup radius
-    // 2. Ride price >= driver's minimum price (based on pricePerKm * distance or minPricePerRide)
-    // 3. Driver's vehicle type >= ride's required vehicle type
-    // 4. Driver's max passengers >= ride's passenger count
-    //
-    // Results are sorted by match score (best matches first)
-    // ============================================================
-    .get('/matching/:driverId', async ({ params, query, db }: {
-        params: { driverId: string };
-        query: { limit?: string; sortBy?: string };
+        if (!canAccessRide(caller, rides[0]!)) {
+            throw forbidden('You do not have access to this ride');
+        }
+
+        return { route: await getRideRoute(db, id) };
+    }, { roles: ['rider', 'driver', 'admin'], params: IdParams, detail: responds(t.Object({ route: RideRouteModel })) })
+
+    // Get assigned driver
+    .get('/:id/driver', async ({ params, db, caller }: {
+        params: { id: string };
+        db: Sql;
+        caller: Caller;
+    }) => {
+        const { id } = params;
+
+        // Get ride data
+        const rides = await db`
+            SELECT * FROM rides WHERE id = ${id}
+        `;
+
+        if (rides.length === 0) {
+            throw notFound('Ride not found');
+        }
+
+        const ride = rides[0]!;
+
+        if (!canAccessRide(caller, ride)) {
+            throw forbidden('You do not have access to this ride');
+        }
+
+        if (!ride.assigned_driver_id) {
+            return { driver: null };
+        }
+
+        // Get driver data
+        const drivers = await db`
+            SELECT * FROM drivers WHERE id = ${ride.assigned_driver_id}
+        `;
+
+        if (drivers.length === 0) {
+            return { driver: null };
+        }
+
+        const fullDriver = drivers[0]!;
+        const driver = {
+            id: fullDriver.id,
+            email: fullDriver.email,
+            username: fullDriver.full_name || fullDriver.email.split('@')[0],
+            walletAddress: fullDriver.wallet_address || '',
+            isDriver: fullDriver.status === 'approved',
+            createdAt: fullDriver.created_at,
+            updatedAt: fullDriver.updated_at,
+        };
+
+        return { driver };
+    }, { roles: ['rider', 'driver', 'admin'], params: IdParams, detail: responds(t.Object({ driver: t.Nullable(DriverModel) })) })
+
+    // Get driver location
+    .get('/:id/location', async ({ params, db, caller }: {
+        params: { id: string };
         db: Sql;
+        caller: Caller;
     }) => {
-        try {
-            const { driverId } = params;
-            const limit = parseInt(query.limit || '20');
-            const sortBy = query.sortBy || 'score'; // 'score', 'distance', 'price'
+        const { id: driverId } = params;
 
-            // 1. Get driver with their preferences and current location
+        if (!await canSeeDriverLocation(db, caller, driverId)) {
+            throw forbidden('You can only see the location of your own driver');
+        }
+
+        // Get location from driver_locations table
+        const locations = await db`
+            SELECT * FROM driver_locations WHERE driver_id = ${driverId}
+        `;
+
+        if (locations.length === 0) {
+            // Fallback: get location from driver record
             const drivers = await db`
-                SELECT
-                    id, latitude, longitude, status, availability,
-                    price_per_km, min_price_per_ride, max_pickup_radius_km,
-                    vehicle_type, max_passengers
-                FROM drivers
+                SELECT latitude, longitude, last_location_update 
+                FROM drivers 
                 WHERE id = ${driverId}
             `;
 
-            if (drivers.length === 0) {
-                return { error: 'Driver not found', status: 404 };
+            if (drivers.length > 0 && drivers[0]!.latitude && drivers[0]!.longitude) {
+                return {
+                    location: {
+                        driverId,
+                        latitude: drivers[0]!.latitude,
+                        longitude: drivers[0]!.longitude,
+                        timestamp: drivers[0]!.last_location_update || new Date().toISOString(),
+                    }
+                };
             }
 
-            const driver = drivers[0]!;
-
-            // Verify driver is approved and available
-            if (driver.status !== 'approved') {
-                return { error: 'Driver must be approved to view matching rides', status: 403 };
-            }
+            return { location: null };
+        }
 
-            if (driver.availability !== 'online_free') {
-                return { error: 'Driver must be online and free to view matching rides', status: 403 };
+        const loc = locations[0]!;
+        return {
+            location: {
+                driverId: loc.driver_id,
+                latitude: loc.latitude,
+                longitude: loc.longitude,
+                heading: loc.heading,
+                speed: loc.speed,
+                accuracy: loc.accuracy,
+                timestamp: loc.timestamp,
             }
+        };
+    }, { roles: ['rider', 'driver', 'admin'], params: IdParams, detail: responds(t.Object({ location: t.Nullable(DriverLocationModel) })) })
 
-            // Check if driver has location set
-            if (!driver.latitude || !driver.longitude) {
-                return { error: 'Driver location is required for matching', status: 400 };
-            }
+    // Delete ride
+    .delete('/:id', async ({ params, db }: { params: { id: string }; db: Sql }) => {
+        const { id } = params;
+
+        // The foreign key clears drivers.current_ride_id and removes the ride's events,
+        // a driver who was busy with the ride is free again
+        // Open counter-offers are withdrawn first so their drivers hear about it
+        const result = await db.begin(async (tx) => {
+            await tx`
+                UPDATE drivers SET availability = 'online_free', updated_at = ${new Date().toISOString()}
+                WHERE current_ride_id = ${id} AND availability = 'online_busy'
+            `;
 
-            const driverLat = driver.latitude;
-            const driverLng = driver.longitude;
-            const pricePerKm = driver.price_per_km ?? 1.5;
-            const minPricePerRide = driver.min_price_per_ride ?? 5.0;
-            const maxPickupRadius = driver.max_pickup_radius_km ?? 10.0;
-            const driverVehicleType = driver.vehicle_type ?? 1;
-            const driverMaxPassengers = driver.max_passengers ?? 4;
-
-            // 2. Get all pending rides
-            const pendingRides = await db`
-                SELECT * FROM rides
-                WHERE status = 'pending'
-                AND assigned_driver_id IS NULL
-                ORDER BY created_at DESC
+            const withdrawnOffers = await closeCounterOffers(tx, id);
+            const deleted = await tx`
+                DELETE FROM rides WHERE id = ${id} RETURNING id
             `;
 
-            // 3. Filter and score rides based on driver preferences
-            const matchingRides: MatchingRide[] = [];
-
-            for (const row of pendingRides) {
-                const ride = mapRowToRide(row);
-
-                // Calculate distance from driver to pickup point
-                const distanceToPickup = calculateDistanceKm(
-                    driverLat, driverLng,
-                    ride.originCoordinates.latitude,
-                    ride.originCoordinates.longitude
-                );
-
-                // FILTER 1: Check if ride is within driver's max pickup radius
-                if (distanceToPickup > maxPickupRadius) {
-                    continue;
-                }
-
-                // FILTER 2: Check vehicle type requirement
-                const requiredVehicleType = ride.requiredVehicleType ?? 1;
-                if (driverVehicleType < requiredVehicleType) {
-                    continue;
-                }
-
-                // FILTER 3: Check passenger count
-                const passengerCount = ride.passengerCount ?? 1;
-                if (driverMaxPassengers < passengerCount) {
-                    continue;
-                }
-
-                // Calculate ride distance (origin to destination)
-                const rideDistanceKm = ride.distanceKm ?? calculateDistanceKm(
-                    ride.originCoordinates.latitude, ride.originCoordinates.longitude,
-                    ride.destinationCoordinates.latitude, ride.destinationCoordinates.longitude
-                );
-
-                // Calculate driver's minimum acceptable price for this ride
-                const driverMinPrice = calculateDriverMinPrice(pricePerKm, minPricePerRide, rideDistanceKm);
-
-                // Get ride's offered price (customPrice takes priority over estimatedPrice)
-                const ridePrice = parsePriceToNumber(ride.customPrice) || parsePriceToNumber(ride.estimatedPrice);
-
-                // FILTER 4: Check if ride price meets driver's minimum
-                if (ridePrice < driverMinPrice) {
-                    continue;
-                }
-
-                // Calculate match score (higher is better)
-                // Score factors:
-                // - Closer pickup = higher score (max 40 points)
-                // - Higher profit margin = higher score (max 40 points)
-                // - Newer rides = slight bonus (max 20 points)
-
-                const distanceScore = Math.max(0, 40 * (1 - distanceToPickup / maxPickupRadius));
-                const profitMargin = ridePrice > 0 ? (ridePrice - driverMinPrice) / ridePrice : 0;
-                const profitScore = Math.min(40, profitMargin * 100);
-
-                const rideAgeMinutes = (Date.now() - new Date(ride.createdAt).getTime()) / 60000;
-                const freshnessScore = Math.max(0, 20 * (1 - Math.min(rideAgeMinutes, 60) / 60));
-
-                const matchScore = distanceScore + profitScore + freshnessScore;
-
-                matchingRides.push({
-                    ...ride,
-                    distanceToPickup: Math.round(distanceToPickup * 100) / 100,
-                    driverMinPrice: Math.round(driverMinPrice * 100) / 100,
-                    ridePrice,
-                    matchScore: Math.round(matchScore * 10) / 10,
-                });
-            }
+            return { deleted, withdrawnOffers };
+        });
 
-            // 4. Sort based on preference
-            switch (sortBy) {
-                case 'distance':
-                    matchingRides.sort((a, b) => a.distanceToPickup - b.distanceToPickup);
-                    break;
-                case 'price':
-                    matchingRides.sort((a, b) => b.ridePrice - a.ridePrice);
-                    break;
-                case 'score':
-                default:
-                    matchingRides.sort((a, b) => b.matchScore - a.matchScore);
-            }
+        if (result.deleted.length === 0) {
+            throw notFound('Ride not found');
+        }
+
+        publishCounterOffers(result.withdrawnOffers);
+        withdrawRideOffer(id, 'cancelled');
+
+        return {
+            success: true,
+            message: 'Ride deleted successfully'
+        };
+    }, { roles: ['admin'], params: IdParams, detail: responds(MessageModel) })
+
+    // Get rides matching driver's preferences (see matching.ts), best matches first
+    // Drivers subscribed over /ws are pushed the same matches as rideOffer messages
+    .get('/matching/:driverId', async ({ params, query, db, caller }: {
+        params: { driverId: string };
+        query: { limit: number; sortBy: MatchSort };
+        db: Sql;
+        caller: Caller;
+    }) => {
+        const { driverId } = params;
+
+        if (!canActForDriver(caller, driverId)) {
+            throw forbidden('You can only view matching rides for yourself');
+        }
+        const { limit, sortBy } = query;
+
+        // 1. Get driver with their preferences and current location
+        const drivers = await db`
+            SELECT
+                id, latitude, longitude, status, availability,
+                price_per_km_amount, min_price_per_ride_amount, price_currency,
+                max_pickup_radius_km, vehicle_type, max_passengers,
+                location_anomaly_score, location_anomaly_at
+            FROM drivers
+            WHERE id = ${driverId}
+        `;
+
+        if (drivers.length === 0) {
+            throw notFound('Driver not found');
+        }
+
+        const driver = drivers[0]!;
+
+        // Verify driver is approved and available
+        if (driver.status !== 'approved') {
+            throw forbidden('Driver must be approved to view matching rides');
+        }
 
-            // 5. Apply limit
-            const limitedRides = matchingRides.slice(0, limit);
-
-            return {
-                success: true,
-                driverPreferences: {
-                    pricePerKm,
-                    minPricePerRide,
-                    maxPickupRadiusKm: maxPickupRadius,
-                    vehicleType: driverVehicleType,
-                    maxPassengers: driverMaxPassengers,
-                    currentLocation: { latitude: driverLat, longitude: driverLng }
-                },
-                matchingRides: limitedRides,
-                totalMatches: matchingRides.length,
-                totalPending: pendingRides.length,
-            };
-
-        } catch (error) {
-            console.error('Error finding matching rides:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        if (driver.availability !== 'online_free') {
+            throw forbidden('Driver must be online and free to view matching rides');
         }
+
+        if (isExcludedForAnomalies(driver)) {
+            throw forbidden('Driver is excluded from matching after repeated implausible location updates');
+        }
+
+        // Check if driver has location set
+        const profile = toMatchProfile(driver);
+        if (!profile) {
+            throw badRequest('Driver location is required for matching');
+        }
+
+        // 2. Get the pending rides within the driver's pickup radius (see geoQueries.ts)
+        const pendingRides = await findPendingRidesNear(db, profile.location, profile.maxPickupRadiusKm);
+        const pendingCount = await db`
+            SELECT COUNT(*) AS count FROM rides
+            WHERE status = 'pending'
+                AND assigned_driver_id IS NULL
+                AND dispatched_at IS NOT NULL
+                AND dispatch_mode = 'broadcast'
+        `;
+
+        // 3. Filter and score rides based on driver preferences
+        // Rides under the driver's minimum price stay in, marked belowMinimum, so the driver can counter them
+        const matchingRides = await matchRidesForDriver(pendingRides.map(mapRowToRide), profile, { includeBelowMinimum: true });
+
+        // 4. Sort based on preference
+        sortMatches(matchingRides, sortBy);
+
+        // 5. Apply limit
+        const limitedRides = matchingRides.slice(0, limit);
+
+        return {
+            success: true,
+            driverPreferences: {
+                pricePerKm: profile.pricePerKm,
+                minPricePerRide: profile.minPricePerRide,
+                maxPickupRadiusKm: profile.maxPickupRadiusKm,
+                vehicleType: profile.vehicleType,
+                maxPassengers: profile.maxPassengers,
+                currentLocation: profile.location
+            },
+            matchingRides: limitedRides,
+            totalMatches: matchingRides.length,
+            totalPending: parseInt(pendingCount[0]!.count as string),
+        };
+    }, {
+        roles: ['driver', 'admin'],
+        params: t.Object({ driverId: Id }),
+        query: t.Object({
+            limit: Limit(20),
+            sortBy: t.Union([t.Literal('score'), t.Literal('distance'), t.Literal('price')], { default: 'score' }),
+        }),
+        detail: responds(t.Object({
+            success: t.Boolean(),
+            driverPreferences: t.Composite([
+                DriverMatchingPreferencesModel,
+                t.Object({ currentLocation: CoordinatesSchema }),
+            ]),
+            matchingRides: t.Array(MatchingRideModel),
+            totalMatches: t.Integer(),
+            totalPending: t.Integer(),
+        })),
     });
@@ -0,0 +1,84 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import type { Subprocess } from 'bun';
+import type { Coordinates } from './types';
+import { calculateDistanceKm, encodePolyline } from './geo';
+import { createOsrmProvider, getRoute, getRouteMatrix, haversineProvider, setRoutingProvider } from './routing';
+
+// The OSRM adapter against the local stand-in (osrmStub.ts), which fakes roads as the
+// straight line x1.3 at 30 km/h by default
+
+const STUB_PORT = 5911;
+const STUB_URL = `http://localhost:${STUB_PORT}`;
+
+const downtown: Coordinates = { latitude: 40.7128, longitude: -74.006 };
+const midtown: Coordinates = { latitude: 40.7549, longitude: -73.984 };
+
+function stubKm(from: Coordinates, to: Coordinates): number {
+    return calculateDistanceKm(from.latitude, from.longitude, to.latitude, to.longitude) * 1.3;
+}
+
+let stub: Subprocess;
+
+beforeAll(async () => {
+    stub = Bun.spawn(['bun', 'src/osrmStub.ts', String(STUB_PORT)], { stdout: 'ignore', stderr: 'inherit' });
+
+    const deadline = Date.now() + 10_000;
+    while (!(await fetch(`${STUB_URL}/route/v1/driving/0,0;1,1`).then((response) => response.ok, () => false))) {
+        if (Date.now() > deadline) throw new Error('OSRM stub did not start');
+        await Bun.sleep(100);
+    }
+});
+
+afterAll(async () => {
+    setRoutingProvider(haversineProvider);
+    stub.kill();
+    await stub.exited;
+});
+
+describe('OSRM provider', () => {
+    const osrm = createOsrmProvider(STUB_URL);
+
+    test('routes along the road', async () => {
+        const route = await osrm.route(downtown, midtown);
+
+        expect(route.distanceKm).toBeCloseTo(stubKm(downtown, midtown), 1);
+        expect(route.durationSeconds).toBeCloseTo(stubKm(downtown, midtown) / 30 * 3600, -1);
+        expect(route.polyline).toBe(encodePolyline([downtown, midtown]));
+    });
+
+    test('answers a matrix between sources and destinations', async () => {
+        const matrix = await osrm.matrix([downtown, midtown], [midtown]);
+
+        expect(matrix).toHaveLength(2);
+        expect(matrix[0]![0]!.distanceKm).toBeCloseTo(stubKm(downtown, midtown), 1);
+        expect(matrix[1]![0]).toEqual({ distanceKm: 0, durationSeconds: 0 });
+    });
+
+    test('throws on errors from the server', async () => {
+        const broken = createOsrmProvider(STUB_URL, 'driving/extra');
+        await expect(broken.route(downtown, midtown)).rejects.toThrow('OSRM request failed');
+    });
+});
+
+describe('routing through the provider', () => {
+    test('falls back to the straight line while the provider is down', async () => {
+        setRoutingProvider(createOsrmProvider('http://localhost:1'));
+        const route = await getRoute(downtown, midtown);
+
+        expect(route).toEqual(await haversineProvider.route(downtown, midtown));
+    });
+
+    test('answers a matrix larger than the route cache', async () => {
+        setRoutingProvider(createOsrmProvider(STUB_URL));
+
+        // 100 x 60 pairs, more than the default ROUTING_CACHE_SIZE of 5000
+        const sources = Array.from({ length: 100 }, (_, i) => ({ latitude: 40.7 + i * 0.001, longitude: -74.0 }));
+        const destinations = Array.from({ length: 60 }, (_, j) => ({ latitude: 40.8, longitude: -73.9 - j * 0.001 }));
+
+        const matrix = await getRouteMatrix(sources, destinations);
+
+        expect(matrix.flat().every((summary) => summary !== null)).toBe(true);
+        expect(matrix[0]![0]!.distanceKm).toBeCloseTo(stubKm(sources[0]!, destinations[0]!), 1);
+        expect(matrix[99]![59]!.distanceKm).toBeCloseTo(stubKm(sources[99]!, destinations[59]!), 1);
+    });
+});
@@ -0,0 +1,246 @@
+import type { Coordinates } from './types';
+import { AVERAGE_CITY_SPEED_KMH, calculateDistanceKm, encodePolyline, estimateTravelSeconds } from './geo';
+
+// Road distances and travel times, used by fare quotes, matching and pickup ETAs
+//
+// ROUTING_PROVIDER picks the implementation:
+//   haversine  straight-line distance at an average speed (default, needs nothing)
+//   osrm       an OSRM server's /route and /table services at OSRM_URL
+//              (`bun run routing:stub` serves a local stand-in, see osrmStub.ts)
+// Provider failures fall back to haversine for that call, results are cached per
+// origin/destination pair for ROUTING_CACHE_TTL_SECONDS
+
+export interface RouteSummary {
+    distanceKm: number;
+    durationSeconds: number;
+}
+
+export interface Route extends RouteSummary {
+    polyline: string; // Encoded polyline, 5 decimal places
+}
+
+export interface RoutingProvider {
+    name: string;
+    route(from: Coordinates, to: Coordinates): Promise<Route>;
+    // summaries[i][j] is from sources[i] to destinations[j], null where there is no road between them
+    matrix(sources: Coordinates[], destinations: Coordinates[]): Promise<(RouteSummary | null)[][]>;
+}
+
+const PROVIDER = Bun.env.ROUTING_PROVIDER || 'haversine';
+const OSRM_URL = (Bun.env.OSRM_URL || 'http://localhost:5000').replace(/\/+$/, '');
+const OSRM_PROFILE = Bun.env.OSRM_PROFILE || 'driving';
+const TIMEOUT_MS = parseInt(Bun.env.ROUTING_TIMEOUT_MS || '2000');
+const CACHE_TTL_SECONDS = parseInt(Bun.env.ROUTING_CACHE_TTL_SECONDS || '600');
+const CACHE_SIZE = parseInt(Bun.env.ROUTING_CACHE_SIZE || '5000');
+
+// FARE_AVERAGE_SPEED_KMH predates routing and is still honoured
+const AVERAGE_SPEED_KMH = parseFloat(
+    Bun.env.ROUTING_AVERAGE_SPEED_KMH || Bun.env.FARE_AVERAGE_SPEED_KMH || String(AVERAGE_CITY_SPEED_KMH)
+);
+
+// OSRM's default --max-table-size
+const MAX_TABLE_SIZE = 100;
+
+function roundKm(distanceKm: number): number {
+    return Math.round(distanceKm * 100) / 100;
+}
+
+function straightLine(from: Coordinates, to: Coordinates): RouteSummary {
+    const distanceKm = calculateDistanceKm(from.latitude, from.longitude, to.latitude, to.longitude);
+    return { distanceKm: roundKm(distanceKm), durationSeconds: estimateTravelSeconds(distanceKm, AVERAGE_SPEED_KMH) };
+}
+
+export const haversineProvider: RoutingProvider = {
+    name: 'haversine',
+
+    async route(from, to) {
+        return { ...straightLine(from, to), polyline: encodePolyline([from, to]) };
+    },
+
+    async matrix(sources, destinations) {
+        return sources.map((source) => destinations.map((destination) => straightLine(source, destination)));
+    },
+};
+
+function osrmCoordinates(points: Coordinates[]): string {
+    // OSRM takes longitude first
+    return points.map((point) => `${point.longitude},${point.latitude}`).join(';');
+}
+
+async function osrmRequest(baseUrl: string, path: string): Promise<any> {
+    const response = await fetch(`${baseUrl}${path}`, { signal: AbortSignal.timeout(TIMEOUT_MS) });
+    const body = await response.json().catch(() => null) as any;
+
+    // Errors come back as 400 with a code such as InvalidQuery; NoRoute and NoTable leave
+    // the unreachable pairs empty
+    if (!body || !['Ok', 'NoRoute', 'NoTable'].includes(body.code)) {
+        throw new Error(`OSRM request failed: ${body?.code ?? `HTTP ${response.status}`} ${body?.message ?? ''}`.trim());
+    }
+    return body;
+}
+
+// Adapter for an OSRM server (http://project-osrm.org/docs/v5.24.0/api/)
+export function createOsrmProvider(baseUrl: string = OSRM_URL, profile: string = OSRM_PROFILE): RoutingProvider {
+    const base = baseUrl.replace(/\/+$/, '');
+
+    return {
+        name: 'osrm',
+
+        async route(from, to) {
+            const body = await osrmRequest(
+                base, `/route/v1/${profile}/${osrmCoordinates([from, to])}?overview=full&geometries=polyline`
+            );
+
+            const route = body.routes?.[0];
+            if (!route) {
+                throw new Error('OSRM found no route');
+            }
+
+            return {
+                distanceKm: roundKm(route.distance / 1000),
+                durationSeconds: Math.round(route.duration),
+                polyline: route.geometry,
+            };
+        },
+
+        async matrix(sources, destinations) {
+            const sourceIndexes = sources.map((_, index) => index).join(';');
+            const destinationIndexes = destinations.map((_, index) => sources.length + index).join(';');
+
+            const body = await osrmRequest(
+                base,
+                `/table/v1/${profile}/${osrmCoordinates([...sources, ...destinations])}` +
+                `?sources=${sourceIndexes}&destinations=${destinationIndexes}&annotations=distance,duration`
+            );
+
+            return sources.map((_, i) => destinations.map((_, j) => {
+                const distance = body.distances?.[i]?.[j];
+                const duration = body.durations?.[i]?.[j];
+                return distance == null || duration == null
+                    ? null
+                    : { distanceKm: roundKm(distance / 1000), durationSeconds: Math.round(duration) };
+            }));
+        },
+    };
+}
+
+// Least recently used pairs are evicted first (a Map iterates in insertion order)
+class RouteCache<T> {
+    private entries = new Map<string, { value: T; expiresAt: number }>();
+
+    get(key: string): T | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+
+        this.entries.delete(key);
+        if (entry.expiresAt <= Date.now()) return undefined;
+
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    set(key: string, value: T) {
+        this.entries.delete(key);
+        this.entries.set(key, { value, expiresAt: Date.now() + CACHE_TTL_SECONDS * 1000 });
+
+        while (this.entries.size > CACHE_SIZE) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+
+    clear() {
+        this.entries.clear();
+    }
+}
+
+// ~1m precision, so readings a few centimetres apart share an entry
+function pairKey(from: Coordinates, to: Coordinates): string {
+    return `${from.latitude.toFixed(5)},${from.longitude.toFixed(5)};${to.latitude.toFixed(5)},${to.longitude.toFixed(5)}`;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let index = 0; index < items.length; index += size) {
+        chunks.push(items.slice(index, index + size));
+    }
+    return chunks;
+}
+
+const routeCache = new RouteCache<Route>();
+const summaryCache = new RouteCache<RouteSummary | null>();
+
+let provider: RoutingProvider = PROVIDER === 'osrm' ? createOsrmProvider() : haversineProvider;
+
+export function getRoutingProvider(): RoutingProvider {
+    return provider;
+}
+
+// Swap the provider at runtime, e.g. to point at a stub server; cached routes are dropped
+export function setRoutingProvider(next: RoutingProvider) {
+    provider = next;
+    routeCache.clear();
+    summaryCache.clear();
+}
+
+// Logged at most once a minute while the provider is down
+let lastFallbackWarning = 0;
+
+function warnFallback(error: unknown) {
+    if (Date.now() - lastFallbackWarning < 60_000) return;
+    lastFallbackWarning = Date.now();
+    console.warn(`⚠️ Routing via ${provider.name} failed, using straight-line distance: ${(error as Error).message}`);
+}
+
+// Route between two points; fallback results aren't cached so the provider is retried next time
+export async function getRoute(from: Coordinates, to: Coordinates): Promise<Route> {
+    const key = pairKey(from, to);
+    const cached = routeCache.get(key);
+    if (cached) return cached;
+
+    try {
+        const route = await provider.route(from, to);
+        routeCache.set(key, route);
+        summaryCache.set(key, { distanceKm: route.distanceKm, durationSeconds: route.durationSeconds });
+        return route;
+    } catch (error) {
+        warnFallback(error);
+        return haversineProvider.route(from, to);
+    }
+}
+
+// Distance and duration between every source and destination, null where there is no road
+// Only the missing pairs are requested, in blocks that fit OSRM's table size limit
+export async function getRouteMatrix(sources: Coordinates[], destinations: Coordinates[]): Promise<(RouteSummary | null)[][]> {
+    const result = sources.map((source) => destinations.map((destination) => summaryCache.get(pairKey(source, destination))));
+
+    const missingSources = sources.filter((_, i) => result[i]!.some((summary) => summary === undefined));
+    const missingDestinations = destinations.filter((_, j) => result.some((row) => row[j] === undefined));
+    if (missingSources.length === 0) return result as (RouteSummary | null)[][];
+
+    const destinationBlock = Math.min(missingDestinations.length, MAX_TABLE_SIZE - 1);
+    const sourceBlock = Math.max(1, MAX_TABLE_SIZE - destinationBlock);
+
+    // A matrix bigger than the cache evicts its own first pairs, so the answer is built from these
+    const fetched = new Map<string, RouteSummary | null>();
+
+    try {
+        for (const sourceChunk of chunk(missingSources, sourceBlock)) {
+            for (const destinationChunk of chunk(missingDestinations, destinationBlock)) {
+                const block = await provider.matrix(sourceChunk, destinationChunk);
+                sourceChunk.forEach((source, i) => destinationChunk.forEach((destination, j) => {
+                    const key = pairKey(source, destination);
+                    fetched.set(key, block[i]?.[j] ?? null);
+                    summaryCache.set(key, block[i]?.[j] ?? null);
+                }));
+            }
+        }
+    } catch (error) {
+        warnFallback(error);
+        const fallback = await haversineProvider.matrix(sources, destinations);
+        return result.map((row, i) => row.map((summary, j) => summary === undefined ? fallback[i]![j]! : summary));
+    }
+
+    return result.map((row, i) => row.map((summary, j) =>
+        summary === undefined ? fetched.get(pairKey(sources[i]!, destinations[j]!)) ?? null : summary
+    ));
+}
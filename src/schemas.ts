@@ -0,0 +1,47 @@
+import { t } from 'elysia';
+import type { FullDriver } from './types';
+import { RIDE_STATUSES } from './rideLifecycle';
+
+// Shared request schemas - route specific bodies live next to their routes
+
+export const DRIVER_STATUSES: FullDriver['status'][] = ['pending', 'approved', 'rejected', 'suspended'];
+export const DRIVER_AVAILABILITIES: FullDriver['availability'][] = ['offline', 'online_free', 'online_busy'];
+
+// String enum as a union of literals (shows up as an enum in the OpenAPI docs)
+export function literalUnion<T extends string>(values: readonly T[]) {
+    return t.Union(values.map((value) => t.Literal(value)));
+}
+
+export const Id = t.String({ format: 'uuid' });
+export const IdParams = t.Object({ id: Id });
+
+export const Email = t.String({ format: 'email' });
+
+// Rejects empty and whitespace-only strings
+export const NonEmptyString = t.String({ pattern: '\\S' });
+
+export const Latitude = t.Number({ minimum: -90, maximum: 90 });
+export const Longitude = t.Number({ minimum: -180, maximum: 180 });
+
+export const CoordinatesSchema = t.Object({
+    latitude: Latitude,
+    longitude: Longitude,
+});
+
+// ISO 4217 code, amounts in integer minor units (see money.ts)
+export const CurrencyCode = t.String({ pattern: '^[A-Z]{3}$' });
+export const MoneySchema = t.Object({
+    amount: t.Integer({ minimum: 0 }),
+    currency: CurrencyCode,
+});
+
+export const RideStatusSchema = literalUnion(RIDE_STATUSES);
+export const DriverStatusSchema = literalUnion(DRIVER_STATUSES);
+export const DriverAvailabilitySchema = literalUnion(DRIVER_AVAILABILITIES);
+
+// Pagination query parameters, coerced from the query string
+export const MAX_PAGE_SIZE = 100;
+
+export const Limit = (defaultLimit: number) => t.Integer({ minimum: 1, maximum: MAX_PAGE_SIZE, default: defaultLimit });
+export const Offset = t.Integer({ minimum: 0, default: 0 });
+export const Page = t.Integer({ minimum: 1, default: 1 });
@@ -0,0 +1,227 @@
+import { Elysia, t } from 'elysia';
+import { v4 as uuidv4 } from 'uuid';
+import { getAddress, recoverMessageAddress, type Address, type Hex } from 'viem';
+import { generateSiweNonce, parseSiweMessage, validateSiweMessage } from 'viem/siwe';
+import type { Sql } from 'postgres';
+import type { Caller } from './types';
+import { mapRowToUser, mapRowToFullDriver } from './types';
+import { authPlugin, signSessionToken } from './auth';
+import { createUsernameFromEmail } from './users';
+import { badRequest, conflict, notFound, unauthorized } from './errors';
+import { Email, literalUnion, NonEmptyString } from './schemas';
+import { FullDriverModel, responds, UserModel } from './openapi';
+
+// EIP-4361 "domain" the app asks wallets to sign for
+const SIWE_DOMAIN = Bun.env.SIWE_DOMAIN || 'localhost:3001';
+const NONCE_TTL_SECONDS = 10 * 60;
+
+// Signed SIWE message as submitted by wallets
+export const SiweSignatureBody = {
+    message: NonEmptyString,
+    signature: t.String({ pattern: '^0x[0-9a-fA-F]+$' }),
+};
+
+export type WalletAccount = { kind: 'user' | 'driver'; id: string };
+
+// Check the message fields, consume its nonce and recover the signer locally (no RPC)
+// Returns the checksummed signer address, throws 401 if anything doesn't check out
+export async function verifySiweSignature(
+    db: Sql,
+    message: string,
+    signature: string
+): Promise<Address> {
+    const fields = parseSiweMessage(message);
+
+    if (!fields.address || !fields.nonce || !fields.domain || !fields.uri || !fields.version || !fields.chainId) {
+        throw unauthorized('Malformed SIWE message');
+    }
+
+    if (!validateSiweMessage({ message: fields, domain: SIWE_DOMAIN })) {
+        throw unauthorized('SIWE message is expired, not yet valid or for another domain');
+    }
+
+    let signer: Address;
+    try {
+        signer = await recoverMessageAddress({ message, signature: signature as Hex });
+    } catch {
+        throw unauthorized('Invalid signature');
+    }
+
+    if (signer.toLowerCase() !== fields.address.toLowerCase()) {
+        throw unauthorized('Signature does not match the message address');
+    }
+
+    // Nonces are single use - consume it only once the signature checks out
+    const now = new Date().toISOString();
+    const consumed = await db`
+        UPDATE siwe_nonces
+        SET used_at = ${now}
+        WHERE nonce = ${fields.nonce} AND used_at IS NULL AND expires_at > ${now}
+        RETURNING nonce
+    `;
+
+    if (consumed.length === 0) {
+        throw unauthorized('Nonce is unknown, expired or already used');
+    }
+
+    return getAddress(signer);
+}
+
+// Bind (or rebind) a verified address to a user or driver record
+// An address can only belong to one account of each kind
+export async function bindWallet(
+    db: Sql,
+    account: WalletAccount,
+    address: Address
+): Promise<any> {
+    const table = account.kind === 'user' ? 'users' : 'drivers';
+
+    // Only verified wallets count, the unique wallet index catches a concurrent bind of the
+    // same address (409 from toApiError)
+    const conflicts = await db`
+        SELECT id FROM ${db(table)}
+        WHERE lower(wallet_address) = ${address.toLowerCase()} AND wallet_verified_at IS NOT NULL
+            AND id <> ${account.id}
+    `;
+
+    if (conflicts.length > 0) {
+        throw conflict('Wallet is already bound to another account');
+    }
+
+    const now = new Date().toISOString();
+
+    const result = await db`
+        UPDATE ${db(table)}
+        SET wallet_address = ${address}, wallet_verified_at = ${now}, updated_at = ${now}
+        WHERE id = ${account.id}
+        RETURNING *
+    `;
+
+    if (result.length === 0) {
+        throw notFound(account.kind === 'user' ? 'User not found' : 'Driver not found');
+    }
+
+    return result[0]!;
+}
+
+export const siweRoutes = new Elysia({ prefix: '/api/auth/siwe', detail: { tags: ['Auth'] } })
+    .use(authPlugin)
+
+    // Issue a single-use nonce to embed in the SIWE message
+    .get('/nonce', async ({ db }: { db: Sql }) => {
+        const nonce = generateSiweNonce();
+        const now = new Date();
+        const expiresAt = new Date(now.getTime() + NONCE_TTL_SECONDS * 1000).toISOString();
+
+        await db`
+            INSERT INTO siwe_nonces (nonce, expires_at, created_at)
+            VALUES (${nonce}, ${expiresAt}, ${now.toISOString()})
+        `;
+
+        return {
+            nonce,
+            domain: SIWE_DOMAIN,
+            expiresAt
+        };
+    }, { detail: responds(t.Object({ nonce: t.String(), domain: t.String(), expiresAt: t.String({ format: 'date-time' }) })) })
+
+    // Verify a signed SIWE message
+    // - With a session: binds the address to the caller's user or driver record
+    // - Without one: signs in to the account already bound to the address,
+    //   or signs up a new rider when `email` is given
+    .post('/verify', async ({ body, db, caller }: {
+        body: { message: string; signature: string; role?: 'rider' | 'driver'; email?: string };
+        db: Sql;
+        caller: Caller | null;
+    }) => {
+        const { message, signature, role = 'rider', email } = body;
+
+        const address = await verifySiweSignature(db, message, signature);
+
+        if (caller) {
+            if (caller.role === 'admin') {
+                throw badRequest('Admins have no wallet to bind');
+            }
+
+            const row = await bindWallet(db, { kind: caller.role === 'rider' ? 'user' : 'driver', id: caller.id }, address);
+
+            return caller.role === 'rider'
+                ? { success: true, address, user: mapRowToUser(row) }
+                : { success: true, address, driver: mapRowToFullDriver(row) };
+        }
+
+        if (role === 'driver') {
+            const drivers = await db`
+                SELECT * FROM drivers
+                WHERE lower(wallet_address) = ${address.toLowerCase()} AND wallet_verified_at IS NOT NULL
+            `;
+
+            if (drivers.length === 0) {
+                throw notFound('No driver account is bound to this wallet');
+            }
+
+            const driver = mapRowToFullDriver(drivers[0]!);
+            return {
+                success: true,
+                address,
+                token: signSessionToken(driver.id, 'driver'),
+                driver
+            };
+        }
+
+        const users = await db`
+            SELECT * FROM users
+            WHERE lower(wallet_address) = ${address.toLowerCase()} AND wallet_verified_at IS NOT NULL
+        `;
+
+        if (users.length > 0) {
+            const user = mapRowToUser(users[0]!);
+            return {
+                success: true,
+                address,
+                token: signSessionToken(user.id, 'rider'),
+                user
+            };
+        }
+
+        if (!email) {
+            throw notFound('No account is bound to this wallet, provide an email to sign up');
+        }
+
+        const existing = await db`
+            SELECT id FROM users WHERE email = ${email}
+        `;
+
+        if (existing.length > 0) {
+            throw conflict('User already exists, sign in and bind the wallet from your account');
+        }
+
+        const userId = uuidv4();
+        const now = new Date().toISOString();
+
+        const created = await db`
+            INSERT INTO users (id, email, username, wallet_address, wallet_verified_at, created_at, updated_at)
+            VALUES (${userId}, ${email}, ${createUsernameFromEmail(email)}, ${address}, ${now}, ${now}, ${now})
+            RETURNING *
+        `;
+
+        return {
+            success: true,
+            address,
+            token: signSessionToken(userId, 'rider'),
+            user: mapRowToUser(created[0]!)
+        };
+    }, {
+        body: t.Object({
+            ...SiweSignatureBody,
+            role: t.Optional(literalUnion(['rider', 'driver'])),
+            email: t.Optional(Email),
+        }),
+        detail: responds(t.Object({
+            success: t.Boolean(),
+            address: t.String(),
+            token: t.Optional(t.String()),
+            user: t.Optional(UserModel),
+            driver: t.Optional(FullDriverModel),
+        })),
+    });
@@ -0,0 +1,108 @@
+import type { DbClient } from './db';
+import type { Coordinates } from './types';
+import { decodeGeohashBounds, encodeGeohash } from './geo';
+
+// Dynamic pricing: the map is bucketed into geohash zones and each zone gets a
+// surge multiplier from its demand/supply ratio over a rolling window
+//   demand = rides requested from the zone in the window (cancelled ones excluded, scheduled ones once dispatched)
+//   supply = online_free drivers in the zone that reported a location in the window
+//   multiplier = min(SURGE_MAX_MULTIPLIER, 1 + SURGE_SENSITIVITY * (demand / max(supply, 1) - 1)), at least 1
+// Applied to fare quotes (see fares.ts)
+
+const ZONE_PRECISION = parseInt(Bun.env.SURGE_ZONE_PRECISION || '5'); // ~5km x 5km cells
+const WINDOW_MINUTES = parseInt(Bun.env.SURGE_WINDOW_MINUTES || '15');
+const SENSITIVITY = parseFloat(Bun.env.SURGE_SENSITIVITY || '0.25');
+const MAX_MULTIPLIER = parseFloat(Bun.env.SURGE_MAX_MULTIPLIER || '2.5');
+
+// Zones are recomputed at most this often, quotes in between reuse the snapshot
+const CACHE_SECONDS = parseInt(Bun.env.SURGE_CACHE_SECONDS || '30');
+
+export interface SurgeZone {
+    zone: string; // Geohash
+    bounds: { south: number; west: number; north: number; east: number };
+    demand: number;
+    supply: number;
+    ratio: number;
+    multiplier: number;
+}
+
+export interface SurgeSnapshot {
+    computedAt: string;
+    windowMinutes: number;
+    zonePrecision: number;
+    maxMultiplier: number;
+    zones: SurgeZone[]; // Only zones with demand or supply
+}
+
+let cached: { expiresAt: number; snapshot: SurgeSnapshot } | null = null;
+
+export function zoneOf(coordinates: Coordinates): string {
+    return encodeGeohash(coordinates.latitude, coordinates.longitude, ZONE_PRECISION);
+}
+
+export function surgeMultiplier(demand: number, supply: number): number {
+    const ratio = demand / Math.max(supply, 1);
+    const multiplier = Math.min(MAX_MULTIPLIER, 1 + SENSITIVITY * (ratio - 1));
+    return Math.max(1, Math.round(multiplier * 10) / 10);
+}
+
+function emptyZone(zone: string): SurgeZone {
+    return { zone, bounds: decodeGeohashBounds(zone), demand: 0, supply: 0, ratio: 0, multiplier: 1 };
+}
+
+async function computeSnapshot(db: DbClient): Promise<SurgeSnapshot> {
+    const since = new Date(Date.now() - WINDOW_MINUTES * 60_000).toISOString();
+
+    const rides = await db`
+        SELECT origin_lat, origin_lng FROM rides
+        WHERE dispatched_at >= ${since}
+            AND status <> 'cancelled'
+    `;
+    const drivers = await db`
+        SELECT latitude, longitude FROM drivers
+        WHERE status = 'approved'
+            AND availability = 'online_free'
+            AND latitude IS NOT NULL
+            AND longitude IS NOT NULL
+            AND last_location_update >= ${since}
+    `;
+
+    const zones = new Map<string, SurgeZone>();
+    const zoneFor = (latitude: number, longitude: number) => {
+        const zone = zoneOf({ latitude, longitude });
+        const entry = zones.get(zone) ?? emptyZone(zone);
+        zones.set(zone, entry);
+        return entry;
+    };
+
+    for (const ride of rides) zoneFor(ride.origin_lat, ride.origin_lng).demand++;
+    for (const driver of drivers) zoneFor(driver.latitude, driver.longitude).supply++;
+
+    for (const zone of zones.values()) {
+        zone.ratio = Math.round((zone.demand / Math.max(zone.supply, 1)) * 100) / 100;
+        zone.multiplier = surgeMultiplier(zone.demand, zone.supply);
+    }
+
+    return {
+        computedAt: new Date().toISOString(),
+        windowMinutes: WINDOW_MINUTES,
+        zonePrecision: ZONE_PRECISION,
+        maxMultiplier: MAX_MULTIPLIER,
+        zones: [...zones.values()].sort((a, b) => b.multiplier - a.multiplier || b.demand - a.demand),
+    };
+}
+
+export async function getSurgeSnapshot(db: DbClient): Promise<SurgeSnapshot> {
+    if (cached && cached.expiresAt > Date.now()) return cached.snapshot;
+
+    const snapshot = await computeSnapshot(db);
+    cached = { expiresAt: Date.now() + CACHE_SECONDS * 1000, snapshot };
+    return snapshot;
+}
+
+// Surge for the zone containing a point, 1x where nothing is happening
+export async function getSurgeAt(db: DbClient, coordinates: Coordinates): Promise<SurgeZone> {
+    const zone = zoneOf(coordinates);
+    const snapshot = await getSurgeSnapshot(db);
+    return snapshot.zones.find((entry) => entry.zone === zone) ?? emptyZone(zone);
+}
@@ -1,8 +1,11 @@
+import { DEFAULT_CURRENCY } from './money';
+
 export interface User {
     id: string;
     email: string;
     username: string;
     walletAddress?: string;
+    walletVerifiedAt?: string; // Set once wallet ownership is proven via SIWE
     isDriver?: boolean;
     driverId?: string; // Driver ID if user is an approved driver
     createdAt: string;
@@ -15,6 +18,17 @@ export interface Coordinates {
     longitude: number;
 }
 
+// Amount in integer minor units (cents for USD) of an ISO 4217 currency, see money.ts
+export interface Money {
+    amount: number;
+    currency: string;
+}
+
+// broadcast: offered to every matching driver, auto: offered to one driver at a time (see dispatch.ts)
+export type DispatchMode = 'broadcast' | 'auto';
+
+export type RideStatus = 'pending' | 'accepted' | 'driver_assigned' | 'approaching_pickup' | 'driver_arrived' | 'in_progress' | 'completed' | 'cancelled';
+
 export interface Ride {
     id: string;
     userId: string;
@@ -24,21 +38,100 @@ export interface Ride {
     destinationCoordinates: Coordinates;
     originAddress: string;
     destinationAddress: string;
-    estimatedPrice?: string;
-    customPrice?: string;
+    fare?: Money; // Server-computed from a fare quote
     distanceKm?: number;
     passengerCount?: number;
     requiredVehicleType?: number;
-    status: 'pending' | 'accepted' | 'driver_assigned' | 'approaching_pickup' | 'driver_arrived' | 'in_progress' | 'completed' | 'cancelled';
+    scheduledTime?: string; // Pickup time of a ride booked in advance
+    dispatchedAt?: string; // When the ride entered the matching pool, unset while a scheduled ride is held back
+    notes?: string;
+    dispatchMode: DispatchMode;
+    status: RideStatus;
+    cancellationReason?: string;
     assignedDriverId?: string;
     driverAcceptedAt?: string;
+    driverUnresponsiveSince?: string; // The assigned driver stopped sending heartbeats mid-ride, for ops to follow up
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type CounterOfferStatus = 'pending' | 'accepted' | 'withdrawn' | 'expired';
+
+// A driver's own price for a pending ride, see counterOffers.ts
+export interface CounterOffer {
+    id: string;
+    rideId: string;
+    driverId: string;
+    price: Money; // In the ride's fare currency
+    message?: string;
+    status: CounterOfferStatus;
+    expiresAt: string;
     createdAt: string;
     updatedAt: string;
 }
 
+export type DispatchAttemptStatus = 'offered' | 'accepted' | 'declined' | 'timed_out' | 'cancelled';
+
+// An offer of an auto-dispatched ride to one driver
+export interface DispatchAttempt {
+    id: string;
+    rideId: string;
+    driverId: string;
+    rank: number; // 1 for the first driver offered the ride
+    distanceToPickupKm: number;
+    matchScore: number;
+    status: DispatchAttemptStatus;
+    offeredAt: string;
+    expiresAt: string;
+    respondedAt?: string;
+}
+
+export interface DriverDispatchStats {
+    offered: number;
+    accepted: number;
+    declined: number;
+    timedOut: number;
+    acceptanceRate: number | null; // accepted / (accepted + declined + timed out), null before any answer
+}
+
+export type RideEventType =
+    | 'status_changed'
+    | 'driver_assigned'
+    | 'ride_started'
+    | 'ride_completed'
+    | 'ride_dispatched'
+    | 'reminder_sent'
+    | 'driver_unresponsive'
+    | 'driver_reconnected';
+
+export type RideEventActorType = 'rider' | 'driver' | 'admin' | 'system';
+
+export interface RideEvent {
+    id: string;
+    rideId: string;
+    type: RideEventType;
+    actorType: RideEventActorType;
+    actorId?: string;
+    previousStatus?: RideStatus;
+    nextStatus?: RideStatus;
+    driverId?: string;
+    driverLocation?: Coordinates;
+    metadata?: Record<string, unknown>;
+    createdAt: string;
+}
+
+export interface RideTimelineDurations {
+    waitSeconds: number | null; // Ride created (or dispatched, if scheduled) -> driver assigned
+    pickupEtaSeconds: number | null; // Estimated at assignment
+    actualPickupSeconds: number | null; // Driver assigned -> driver arrived
+    pickupEtaErrorSeconds: number | null; // actual - estimated (positive = late)
+    tripSeconds: number | null; // Ride started -> completed
+    totalSeconds: number | null; // Ride created -> completed/cancelled
+}
+
 export interface DriverMatchingPreferences {
-    pricePerKm: number;
-    minPricePerRide: number;
+    pricePerKm: Money; // Both prices share the driver's currency
+    minPricePerRide: Money;
     maxPickupRadiusKm: number;
     vehicleType: number;
     maxPassengers: number;
@@ -68,10 +161,11 @@ export interface FullDriver {
     updatedAt: string;
     username?: string;
     walletAddress?: string;
+    walletVerifiedAt?: string;
     isDriver?: boolean;
     // Matching preferences
-    pricePerKm: number;
-    minPricePerRide: number;
+    pricePerKm: Money;
+    minPricePerRide: Money;
     maxPickupRadiusKm: number;
     vehicleType: number;
     maxPassengers: number;
@@ -121,6 +215,14 @@ export interface DriverAvailabilityUpdate {
     longitude?: number;
 }
 
+// A driver's heartbeat state (see driverPresence.ts)
+export interface DriverPresence {
+    driverId: string;
+    availability: 'offline' | 'online_free' | 'online_busy';
+    lastHeartbeatAt?: string;
+    timedOutAt?: string; // Taken offline for missing heartbeats, until the driver picks an availability again
+}
+
 export interface DriverLocation {
     driverId: string;
     latitude: number;
@@ -131,6 +233,82 @@ export interface DriverLocation {
     timestamp: string;
 }
 
+// Why a location update was quarantined (see locationAnomalies.ts)
+export type LocationAnomalyKind =
+    | 'low_accuracy'
+    | 'out_of_order'
+    | 'future_timestamp'
+    | 'impossible_speed'
+    | 'outside_service_area';
+
+export interface LocationAnomaly {
+    id: string;
+    driverId: string;
+    kinds: LocationAnomalyKind[];
+    latitude: number;
+    longitude: number;
+    accuracy?: number;
+    reportedAt?: string; // The device's timestamp of the fix, if given
+    distanceKm?: number; // From the previous fix
+    impliedSpeedKmh?: number;
+    scoreAdded: number;
+    detectedAt: string;
+}
+
+export interface DriverLocationAnomalies {
+    driverId: string;
+    score: number; // Decayed, see locationAnomalies.ts
+    excludedFromMatching: boolean;
+    anomalies: LocationAnomaly[]; // Newest first
+}
+
+// A recorded driver location, one point of a ride's breadcrumb trail
+export interface RoutePoint {
+    latitude: number;
+    longitude: number;
+    heading?: number;
+    speed?: number;
+    accuracy?: number;
+    recordedAt: string;
+}
+
+// The path a ride's driver took, from the location history
+export interface RideRoute {
+    rideId: string;
+    points: RoutePoint[]; // Oldest first
+    polyline: string; // The points as an encoded polyline, 5 decimal places
+    distanceKm: number; // Along the points
+}
+
+export type AuthRole = 'rider' | 'driver' | 'admin';
+
+export interface SessionClaims {
+    sub: string;
+    role: AuthRole;
+    iat: number;
+    exp: number;
+}
+
+// Authenticated caller resolved from the session token
+export type Caller =
+    | { role: 'rider'; id: string; user: User }
+    | { role: 'driver'; id: string; driver: FullDriver }
+    | { role: 'admin'; id: string };
+
+export function mapRowToUser(row: any): User {
+    return {
+        id: row.id,
+        email: row.email,
+        username: row.username,
+        walletAddress: row.wallet_address,
+        walletVerifiedAt: row.wallet_verified_at ?? undefined,
+        isDriver: row.is_driver,
+        driverId: row.driver_id,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    };
+}
+
 export function toSimpleDriver(fullDriver: FullDriver): Driver {
     return {
         id: fullDriver.id,
@@ -141,4 +319,75 @@ export function toSimpleDriver(fullDriver: FullDriver): Driver {
         createdAt: fullDriver.createdAt,
         updatedAt: fullDriver.updatedAt,
     };
-}
\ No newline at end of file
+}
+
+export function mapRowToFullDriver(row: any): FullDriver {
+    return {
+        id: row.id,
+        fullName: row.full_name,
+        email: row.email,
+        phoneNumber: row.phone_number,
+        address: row.address,
+        licenseNumber: row.license_number,
+        vehicleModel: row.vehicle_model,
+        vehicleYear: row.vehicle_year,
+        vehiclePlate: row.vehicle_plate,
+        motivation: row.motivation,
+        status: row.status,
+        availability: row.availability,
+        currentRideId: row.current_ride_id,
+        lastLocationUpdate: row.last_location_update,
+        latitude: row.latitude,
+        longitude: row.longitude,
+        applicationDate: row.application_date,
+        approvalDate: row.approval_date,
+        rejectionReason: row.rejection_reason,
+        username: row.username,
+        walletAddress: row.wallet_address ?? undefined,
+        walletVerifiedAt: row.wallet_verified_at ?? undefined,
+        isDriver: row.is_driver,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        ...mapRowToMatchingPreferences(row),
+    };
+}
+
+export function mapRowToMatchingPreferences(row: any): DriverMatchingPreferences {
+    const currency = row.price_currency ?? DEFAULT_CURRENCY;
+    return {
+        pricePerKm: { amount: row.price_per_km_amount ?? 150, currency },
+        minPricePerRide: { amount: row.min_price_per_ride_amount ?? 500, currency },
+        maxPickupRadiusKm: row.max_pickup_radius_km ?? 10.0,
+        vehicleType: row.vehicle_type ?? 1,
+        maxPassengers: row.max_passengers ?? 4,
+    };
+}
+
+export function mapRowToRide(row: any): Ride {
+    return {
+        id: row.id,
+        userId: row.user_id,
+        userEmail: row.user_email,
+        walletAddress: row.wallet_address,
+        originCoordinates: { latitude: row.origin_lat, longitude: row.origin_lng },
+        destinationCoordinates: { latitude: row.destination_lat, longitude: row.destination_lng },
+        originAddress: row.origin_address,
+        destinationAddress: row.destination_address,
+        // BIGINT arrives as a string
+        fare: row.fare_amount != null ? { amount: Number(row.fare_amount), currency: row.fare_currency } : undefined,
+        distanceKm: row.distance_km,
+        passengerCount: row.passenger_count ?? 1,
+        requiredVehicleType: row.required_vehicle_type ?? 1,
+        scheduledTime: row.scheduled_time ?? undefined,
+        dispatchedAt: row.dispatched_at ?? undefined,
+        notes: row.notes ?? undefined,
+        dispatchMode: row.dispatch_mode ?? 'broadcast',
+        status: row.status,
+        cancellationReason: row.cancellation_reason ?? undefined,
+        assignedDriverId: row.assigned_driver_id,
+        driverAcceptedAt: row.driver_accepted_at,
+        driverUnresponsiveSince: row.driver_unresponsive_since ?? undefined,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    };
+}
@@ -1,336 +1,254 @@
-import { Elysia } from 'elysia';
+import { Elysia, t } from 'elysia';
 import { v4 as uuidv4 } from 'uuid';
-import type { User } from './types';
+import type { User, Caller } from './types';
+import { mapRowToUser } from './types';
 import type { Sql } from 'postgres';
+import { authPlugin, canActForUser, signSessionToken } from './auth';
+import { badRequest, conflict, forbidden, notFound } from './errors';
+import { Email, IdParams, NonEmptyString } from './schemas';
+import { MessageModel, responds, UserModel } from './openapi';
 
 export function createUsernameFromEmail(email: string): string {
     const username = email.split('@')[0] || 'user';
     return username.replace(/[^a-zA-Z0-9._]/g, '').toLowerCase();
 }
 
-export const userRoutes = new Elysia({ prefix: '/api/users' })
-    // Check if user exists
-    .post('/check', async ({ body, db }: { body: { email: string }; db: Sql }) => {
-        try {
-            const { email } = body;
-
-            if (!email) {
-                return {
-                    error: 'Email is required',
-                    status: 400,
-                };
-            }
+// walletAddress is accepted only to reject it with a pointer to SIWE
+const UserBody = t.Object({
+    email: Email,
+    walletAddress: t.Optional(t.String()),
+    username: t.Optional(NonEmptyString),
+});
 
-            // Check if user exists
-            const users = await db`
-                SELECT * FROM users WHERE email = ${email}
-            `;
+export const userRoutes = new Elysia({ prefix: '/api/users', detail: { tags: ['Users'] } })
+    .use(authPlugin)
+
+    // Check if user exists (public - account details are only returned to the user themselves)
+    .post('/check', async ({ body, db, caller }: { body: { email: string }; db: Sql; caller: Caller | null }) => {
+        const { email } = body;
 
-            if (users.length > 0) {
-                const existingUser = users[0]!;
-                
-                // Check if user is also a driver
-                let driverId = null;
-                let isDriver = existingUser.is_driver || false;
-                
-                try {
-                    const drivers = await db`
-                        SELECT id, status FROM drivers WHERE email = ${email}
-                    `;
-                    if (drivers.length > 0 && drivers[0]!.status === 'approved') {
-                        isDriver = true;
-                        driverId = drivers[0]!.id;
-                    }
-                } catch (driverError) {
-                    console.log('No driver record found for user:', email);
+        // Check if user exists
+        const users = await db`
+            SELECT * FROM users WHERE email = ${email}
+        `;
+
+        if (users.length > 0) {
+            const existingUser = users[0]!;
+            
+            // Check if user is also a driver
+            let driverId = null;
+            let isDriver = existingUser.is_driver || false;
+            
+            try {
+                const drivers = await db`
+                    SELECT id, status FROM drivers WHERE email = ${email}
+                `;
+                if (drivers.length > 0 && drivers[0]!.status === 'approved') {
+                    isDriver = true;
+                    driverId = drivers[0]!.id;
                 }
-                
-                const userWithDriverInfo: User = {
-                    id: existingUser.id,
-                    email: existingUser.email,
-                    username: existingUser.username,
-                    walletAddress: existingUser.wallet_address,
-                    isDriver,
-                    driverId,
-                    createdAt: existingUser.created_at,
-                    updatedAt: existingUser.updated_at,
-                };
-                
-                return {
-                    exists: true,
-                    user: userWithDriverInfo
-                };
+            } catch (driverError) {
+                console.log('No driver record found for user:', email);
             }
-
-            return {
-                exists: false
+            
+            const userWithDriverInfo: User = {
+                id: existingUser.id,
+                email: existingUser.email,
+                username: existingUser.username,
+                walletAddress: existingUser.wallet_address,
+                isDriver,
+                driverId,
+                createdAt: existingUser.created_at,
+                updatedAt: existingUser.updated_at,
             };
+            
+            if (!canActForUser(caller, existingUser.id)) {
+                return { exists: true };
+            }
 
-        } catch (error) {
-            console.error('Error checking user:', error);
             return {
-                error: 'Internal server error',
-                status: 500,
+                exists: true,
+                user: userWithDriverInfo
             };
         }
-    })
 
-    // Create new user
-    .post('/create', async ({ body, db }: { body: { email: string; walletAddress?: string; username?: string }; db: Sql }) => {
-        try {
-            const { email, walletAddress, username } = body;
-
-            if (!email) {
-                return {
-                    error: 'Email is required',
-                    status: 400,
-                };
-            }
+        return {
+            exists: false
+        };
+    }, { body: t.Object({ email: Email }), detail: responds(t.Object({ exists: t.Boolean(), user: t.Optional(UserModel) })) })
 
-            // Check if user already exists
-            const existing = await db`
-                SELECT id FROM users WHERE email = ${email}
-            `;
-            
-            if (existing.length > 0) {
-                return {
-                    error: 'User already exists',
-                    status: 400,
-                };
-            }
-
-            // Create new user
-            const userId = uuidv4();
-            const finalUsername = username || createUsernameFromEmail(email);
-            const now = new Date().toISOString();
-
-            await db`
-                INSERT INTO users (id, email, username, wallet_address, created_at, updated_at)
-                VALUES (${userId}, ${email}, ${finalUsername}, ${walletAddress || null}, ${now}, ${now})
-            `;
-
-            const newUser: User = {
-                id: userId,
-                email,
-                username: finalUsername,
-                walletAddress,
-                createdAt: now,
-                updatedAt: now,
-            };
+    // Create new user (public), signed in as the new rider
+    // Email isn't proof of identity, so this is the only token issued for an email alone: to sign
+    // in again later the rider binds a wallet with it (see siwe.ts)
+    .post('/create', async ({ body, db }: { body: { email: string; walletAddress?: string; username?: string }; db: Sql }) => {
+        const { email, walletAddress, username } = body;
 
-            return {
-                success: true,
-                user: newUser
-            };
+        if (walletAddress) {
+            throw badRequest('Wallet addresses must be verified, use POST /api/auth/siwe/verify');
+        }
 
-        } catch (error) {
-            console.error('Error creating user:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        // Check if user already exists
+        const existing = await db`
+            SELECT id FROM users WHERE email = ${email}
+        `;
+        
+        if (existing.length > 0) {
+            throw conflict('User already exists');
         }
-    })
+
+        // Create new user
+        const userId = uuidv4();
+        const finalUsername = username || createUsernameFromEmail(email);
+        const now = new Date().toISOString();
+
+        await db`
+            INSERT INTO users (id, email, username, wallet_address, created_at, updated_at)
+            VALUES (${userId}, ${email}, ${finalUsername}, NULL, ${now}, ${now})
+        `;
+
+        const newUser: User = {
+            id: userId,
+            email,
+            username: finalUsername,
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        return {
+            success: true,
+            user: newUser,
+            token: signSessionToken(userId, 'rider'),
+        };
+    }, { body: UserBody, detail: responds(t.Object({ success: t.Boolean(), user: UserModel, token: t.String() })) })
 
     // Update user
-    .put('/update', async ({ body, db }: { body: { email: string; walletAddress?: string; username?: string }; db: Sql }) => {
-        try {
-            const { email, walletAddress, username } = body;
-
-            if (!email) {
-                return {
-                    error: 'Email is required',
-                    status: 400,
-                };
-            }
+    .put('/update', async ({ body, db, caller }: {
+        body: { email: string; walletAddress?: string; username?: string };
+        db: Sql;
+        caller: Caller;
+    }) => {
+        const { email, walletAddress, username } = body;
+
+        if (walletAddress !== undefined) {
+            throw badRequest('Wallet addresses must be verified, use POST /api/auth/siwe/verify');
+        }
 
-            // Get existing user
-            const existing = await db`
-                SELECT * FROM users WHERE email = ${email}
-            `;
-            
-            if (existing.length === 0) {
-                return {
-                    error: 'User not found',
-                    status: 404,
-                };
-            }
+        // Get existing user
+        const existing = await db`
+            SELECT * FROM users WHERE email = ${email}
+        `;
+        
+        if (existing.length === 0) {
+            throw notFound('User not found');
+        }
 
-            const now = new Date().toISOString();
+        if (!canActForUser(caller, existing[0]!.id)) {
+            throw forbidden('You can only update your own account');
+        }
 
-            // Update user
-            await db`
-                UPDATE users 
-                SET 
-                    ${walletAddress !== undefined ? db`wallet_address = ${walletAddress},` : db``}
-                    ${username !== undefined ? db`username = ${username},` : db``}
-                    updated_at = ${now}
-                WHERE email = ${email}
-            `;
+        const now = new Date().toISOString();
 
-            const updated = await db`
-                SELECT * FROM users WHERE email = ${email}
-            `;
+        // Update user
+        await db`
+            UPDATE users 
+            SET 
+                ${username !== undefined ? db`username = ${username},` : db``}
+                updated_at = ${now}
+            WHERE email = ${email}
+        `;
 
-            const row = updated[0]!;
-            const updatedUser: User = {
-                id: row.id,
-                email: row.email,
-                username: row.username,
-                walletAddress: row.wallet_address,
-                isDriver: row.is_driver,
-                driverId: row.driver_id,
-                createdAt: row.created_at,
-                updatedAt: row.updated_at,
-            };
+        const updated = await db`
+            SELECT * FROM users WHERE email = ${email}
+        `;
 
-            return {
-                success: true,
-                user: updatedUser
-            };
+        const row = updated[0]!;
+        const updatedUser = mapRowToUser(row);
 
-        } catch (error) {
-            console.error('Error updating user:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
-        }
-    })
+        return {
+            success: true,
+            user: updatedUser
+        };
+    }, { roles: ['rider', 'admin'], body: UserBody, detail: responds(t.Object({ success: t.Boolean(), user: UserModel })) })
 
     // Get user by ID
-    .get('/:id', async ({ params, db }: { params: { id: string }; db: Sql }) => {
-        try {
-            const { id } = params;
+    .get('/:id', async ({ params, db, caller }: { params: { id: string }; db: Sql; caller: Caller }) => {
+        const { id } = params;
 
-            const users = await db`
-                SELECT * FROM users WHERE id = ${id}
-            `;
+        if (!canActForUser(caller, id)) {
+            throw forbidden('You can only view your own account');
+        }
 
-            if (users.length === 0) {
-                return {
-                    error: 'User not found',
-                    status: 404,
-                };
-            }
+        const users = await db`
+            SELECT * FROM users WHERE id = ${id}
+        `;
 
-            const row = users[0]!;
-            const user: User = {
-                id: row.id,
-                email: row.email,
-                username: row.username,
-                walletAddress: row.wallet_address,
-                isDriver: row.is_driver,
-                driverId: row.driver_id,
-                createdAt: row.created_at,
-                updatedAt: row.updated_at,
-            };
+        if (users.length === 0) {
+            throw notFound('User not found');
+        }
 
-            return { user };
+        const row = users[0]!;
+        const user = mapRowToUser(row);
 
-        } catch (error) {
-            console.error('Error fetching user:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
-        }
-    })
+        return { user };
+    }, { roles: ['rider', 'admin'], params: IdParams, detail: responds(t.Object({ user: UserModel })) })
 
     // Get user by email
-    .get('/email/:email', async ({ params, db }: { params: { email: string }; db: Sql }) => {
-        try {
-            const { email } = params;
+    .get('/email/:email', async ({ params, db, caller }: { params: { email: string }; db: Sql; caller: Caller }) => {
+        const { email } = params;
 
-            const users = await db`
-                SELECT * FROM users WHERE email = ${decodeURIComponent(email)}
-            `;
+        const users = await db`
+            SELECT * FROM users WHERE email = ${decodeURIComponent(email)}
+        `;
 
-            if (users.length === 0) {
-                return {
-                    error: 'User not found',
-                    status: 404,
-                };
-            }
-
-            const row = users[0]!;
-            const user: User = {
-                id: row.id,
-                email: row.email,
-                username: row.username,
-                walletAddress: row.wallet_address,
-                isDriver: row.is_driver,
-                driverId: row.driver_id,
-                createdAt: row.created_at,
-                updatedAt: row.updated_at,
-            };
+        if (users.length === 0) {
+            throw notFound('User not found');
+        }
 
-            return { user };
+        const row = users[0]!;
 
-        } catch (error) {
-            console.error('Error fetching user:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        if (!canActForUser(caller, row.id)) {
+            throw forbidden('You can only view your own account');
         }
-    })
+
+        const user = mapRowToUser(row);
+
+        return { user };
+    }, { roles: ['rider', 'admin'], params: t.Object({ email: t.String() }), detail: responds(t.Object({ user: UserModel })) })
 
     // Get all users (for admin purposes)
     .get('/', async ({ db }: { db: Sql }) => {
-        try {
-            const results = await db`
-                SELECT * FROM users ORDER BY created_at DESC
-            `;
+        const results = await db`
+            SELECT * FROM users ORDER BY created_at DESC
+        `;
 
-            const users: User[] = results.map(row => ({
-                id: row.id,
-                email: row.email,
-                username: row.username,
-                walletAddress: row.wallet_address,
-                isDriver: row.is_driver,
-                driverId: row.driver_id,
-                createdAt: row.created_at,
-                updatedAt: row.updated_at,
-            }));
-
-            return { users };
-
-        } catch (error) {
-            console.error('Error fetching users:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
-        }
-    })
+        const users: User[] = results.map(mapRowToUser);
+
+        return { users };
+    }, { roles: ['admin'], detail: responds(t.Object({ users: t.Array(UserModel) })) })
 
     // Delete user
     .delete('/:id', async ({ params, db }: { params: { id: string }; db: Sql }) => {
-        try {
-            const { id } = params;
+        const { id } = params;
+
+        // The user's rides (and their events) are deleted with it, free any driver serving one
+        const result = await db.begin(async (tx) => {
+            await tx`
+                UPDATE drivers SET availability = 'online_free', updated_at = ${new Date().toISOString()}
+                WHERE availability = 'online_busy'
+                    AND current_ride_id IN (SELECT id FROM rides WHERE user_id = ${id})
+            `;
 
-            const result = await db`
+            return tx`
                 DELETE FROM users WHERE id = ${id} RETURNING id
             `;
+        });
 
-            if (result.length === 0) {
-                return {
-                    error: 'User not found',
-                    status: 404,
-                };
-            }
-
-            return {
-                success: true,
-                message: 'User deleted successfully'
-            };
-
-        } catch (error) {
-            console.error('Error deleting user:', error);
-            return {
-                error: 'Internal server error',
-                status: 500,
-            };
+        if (result.length === 0) {
+            throw notFound('User not found');
         }
-    });
+
+        return {
+            success: true,
+            message: 'User deleted successfully'
+        };
+    }, { roles: ['admin'], params: IdParams, detail: responds(MessageModel) });
@@ -0,0 +1,187 @@
+import { Elysia, t, ValidationError } from 'elysia';
+import { TypeCompiler, type TypeCheck } from 'elysia/type-system';
+import type { Caller } from './types';
+import sql from './db';
+import { authPlugin, canAccessRide, canActForDriver, resolveCaller } from './auth';
+import { badRequest, forbidden, notFound, toApiError, unauthorized } from './errors';
+import { LocationReadingFields, updateDriverLocation } from './driverLocations';
+import { offerPendingRidesToDriver } from './rideOffers';
+import { recordHeartbeat } from './driverPresence';
+import {
+    CHANNEL_KINDS, parseChannel, send, subscribe, unsubscribe, unsubscribeAll, type RealtimeSocket,
+} from './realtime';
+
+// Client -> server messages on /ws, `id` is optional and echoed back in the ack or error
+//   { type: 'subscribe', channel: 'ride:<rideId>' | 'driver:<driverId>' | 'offers:<driverId>', id? }
+//   { type: 'unsubscribe', channel, id? }
+//   { type: 'locationUpdate', latitude, longitude, heading?, speed?, accuracy?, timestamp?, driverId?, id? }
+//   { type: 'ping', id? }  a driver's heartbeat (see driverPresence.ts), acked with their presence
+// Channels and server messages are described in realtime.ts
+
+const MessageId = t.Optional(t.String({ maxLength: 100 }));
+const Channel = t.String({ pattern: `^(${CHANNEL_KINDS.join('|')}):[0-9a-fA-F-]{36}$` });
+
+const CLIENT_MESSAGES = {
+    subscribe: t.Object({ type: t.Literal('subscribe'), id: MessageId, channel: Channel }),
+    unsubscribe: t.Object({ type: t.Literal('unsubscribe'), id: MessageId, channel: Channel }),
+    locationUpdate: t.Object({
+        type: t.Literal('locationUpdate'),
+        id: MessageId,
+        // Admins relay a driver's position, drivers can only report their own
+        driverId: t.Optional(t.String({ format: 'uuid' })),
+        ...LocationReadingFields,
+    }),
+    ping: t.Object({ type: t.Literal('ping'), id: MessageId }),
+};
+
+type ClientMessageType = keyof typeof CLIENT_MESSAGES;
+type ClientMessageSchema = (typeof CLIENT_MESSAGES)[ClientMessageType];
+
+const validators = Object.fromEntries(
+    Object.entries(CLIENT_MESSAGES).map(([type, schema]) => [type, TypeCompiler.Compile(schema)])
+) as Record<ClientMessageType, TypeCheck<ClientMessageSchema>>;
+
+function parseMessage(raw: unknown) {
+    let message: any = raw;
+    if (typeof raw === 'string') {
+        try {
+            message = JSON.parse(raw);
+        } catch {
+            throw badRequest('Messages must be JSON objects');
+        }
+    }
+
+    const validator = validators[message?.type as ClientMessageType];
+    if (!validator) {
+        throw badRequest(`Unknown message type, expected one of: ${Object.keys(CLIENT_MESSAGES).join(', ')}`);
+    }
+
+    // Same VALIDATION_FAILED details as an invalid HTTP request body
+    if (!validator.Check(message)) {
+        throw toApiError('VALIDATION', new ValidationError('message', validator, message));
+    }
+
+    return message as ClientMessageSchema['static'];
+}
+
+// Throws unless the caller may listen to the channel
+async function authorizeChannel(caller: Caller, channel: string) {
+    const { kind, id } = parseChannel(channel)!;
+
+    if (kind === 'ride') {
+        const rides = await sql`
+            SELECT user_id, assigned_driver_id FROM rides WHERE id = ${id}
+        `;
+        if (rides.length === 0) {
+            throw notFound('Ride not found');
+        }
+        if (!canAccessRide(caller, rides[0]!)) {
+            throw forbidden('You can only follow your own rides');
+        }
+        return;
+    }
+
+    if (!canActForDriver(caller, id)) {
+        throw forbidden('You can only follow your own driver channels');
+    }
+}
+
+async function handleMessage(ws: RealtimeSocket, caller: Caller, raw: unknown) {
+    const message = parseMessage(raw);
+
+    switch (message.type) {
+        case 'subscribe': {
+            await authorizeChannel(caller, message.channel);
+            subscribe(message.channel, ws);
+            send(ws, { type: 'ack', id: message.id, channel: message.channel });
+
+            // Catch up on the rides already waiting for this driver
+            const { kind, id } = parseChannel(message.channel)!;
+            if (kind === 'offers') {
+                await offerPendingRidesToDriver(sql, id);
+            }
+            return;
+        }
+
+        case 'unsubscribe':
+            unsubscribe(message.channel, ws);
+            send(ws, { type: 'ack', id: message.id, channel: message.channel });
+            return;
+
+        case 'locationUpdate': {
+            const { type, id, driverId = caller.role === 'driver' ? caller.id : undefined, ...reading } = message;
+
+            if (!driverId) {
+                throw badRequest('driverId is required when relaying a driver\'s location');
+            }
+            if (!canActForDriver(caller, driverId)) {
+                throw forbidden('You can only update your own location');
+            }
+
+            const location = await updateDriverLocation(sql, driverId, reading);
+            send(ws, { type: 'ack', id, location });
+            return;
+        }
+
+        case 'ping':
+            send(ws, {
+                type: 'ack',
+                id: message.id,
+                ...(caller.role === 'driver' && { presence: await recordHeartbeat(sql, caller.id) }),
+            });
+            return;
+    }
+}
+
+// Authenticated at upgrade with an Authorization header or, for browsers, ?token=<session token>
+export const wsRoutes = new Elysia()
+    .use(authPlugin)
+    .derive(async ({ caller, query }) => ({
+        socketCaller: caller ?? (query.token ? await resolveCaller(`Bearer ${query.token}`) : null),
+    }))
+    .ws('/ws', {
+        query: t.Object({ token: t.Optional(t.String()) }),
+        beforeHandle({ socketCaller }) {
+            if (!socketCaller) {
+                throw unauthorized('A valid session token is required to open a WebSocket');
+            }
+        },
+        async open(ws) {
+            const caller = ws.data.socketCaller!;
+            console.log(`🔌 WebSocket connected: ${caller.role} ${caller.id}`);
+
+            // Connecting counts as a heartbeat; a driver taken offline while away is told so
+            if (caller.role === 'driver') {
+                try {
+                    const presence = await recordHeartbeat(sql, caller.id);
+                    if (presence.timedOutAt && presence.availability === 'offline') {
+                        send(ws, { type: 'presenceTimedOut', presence });
+                    }
+                } catch (error) {
+                    console.error('❗ Failed to record driver heartbeat:', error);
+                }
+            }
+        },
+        close(ws) {
+            unsubscribeAll(ws);
+            console.log(`❌ WebSocket disconnected: ${ws.data.socketCaller!.role} ${ws.data.socketCaller!.id}`);
+        },
+        async message(ws, raw) {
+            try {
+                await handleMessage(ws, ws.data.socketCaller!, raw);
+            } catch (error) {
+                const apiError = toApiError('UNKNOWN', error);
+                if (apiError.status >= 500) {
+                    console.error('❗ WebSocket message failed:', error);
+                }
+
+                send(ws, {
+                    type: 'error',
+                    id: typeof (raw as any)?.id === 'string' ? (raw as any).id : undefined,
+                    code: apiError.code,
+                    message: apiError.message,
+                    ...(apiError.details !== undefined ? { details: apiError.details } : {}),
+                });
+            }
+        },
+    });